@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { buildBehaviorPack } from './build.ts';
+import { STRUCTURES_PATH } from '../shared/regions.ts';
+
+describe('buildBehaviorPack', () => {
+  let outputPath: string;
+  let packDir: string;
+
+  before(async () => {
+    outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'behavior-packs-'));
+    packDir = await buildBehaviorPack('test-helper', outputPath);
+  });
+
+  after(() => {
+    fs.rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  it('writes the manifest and strips the scripts', () => {
+    assert.equal(packDir, path.join(outputPath, 'test_helper'));
+    const manifest = JSON.parse(fs.readFileSync(path.join(packDir, 'manifest.json'), 'utf8'));
+    assert.deepEqual(
+      manifest.modules.map((m: { type: string }) => m.type),
+      ['data', 'script']
+    );
+    assert.ok(fs.existsSync(path.join(packDir, 'scripts', 'main.js')));
+  });
+
+  it('ships the repo structures, so a fresh world can load them as namespace:name', () => {
+    const shipped = path.join(packDir, 'structures', 'test', 'marker.mcstructure');
+    assert.deepEqual(fs.readFileSync(shipped), fs.readFileSync(path.join(STRUCTURES_PATH, 'test', 'marker.mcstructure')));
+  });
+});
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { stripTypeScriptTypes } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { getProjectRoot } from '../shared/settings.ts';
+import { STRUCTURES_PATH } from '../shared/regions.ts';
+
+const PACKS_SOURCE_PATH = path.dirname(fileURLToPath(import.meta.url));
+export const BEHAVIOR_PACKS_OUTPUT_PATH = path.join(getProjectRoot(), 'dist', 'behavior_packs');
+
+/**
+ * Names of the packs in this directory, e.g. "test-helper".
+ */
+export function listBehaviorPackSources(): string[] {
+  return fs
+    .readdirSync(PACKS_SOURCE_PATH, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(PACKS_SOURCE_PATH, entry.name, 'manifest.ts')))
+    .map((entry) => entry.name);
+}
+
+function compileScripts(sourceDir: string, outDir: string): void {
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+    const source = path.join(sourceDir, entry.name);
+    if (entry.isDirectory()) {
+      compileScripts(source, path.join(outDir, entry.name));
+    } else if (entry.name.endsWith('.ts')) {
+      // The Script API runs plain JavaScript, relative imports have to point at the emitted files
+      const code = stripTypeScriptTypes(fs.readFileSync(source, 'utf8'), { mode: 'strip' })
+        .replace(/(from\s+['"]\.{1,2}\/[^'"]+)\.ts(['"])/g, '$1.js$2');
+      fs.writeFileSync(path.join(outDir, entry.name.replace(/\.ts$/, '.js')), code);
+    }
+  }
+}
+
+/**
+ * Build a pack from src/behavior-packs/<name> into dist/behavior_packs/<name_with_underscores>:
+ * manifest.ts becomes manifest.json and scripts/*.ts are stripped to JavaScript.
+ * The test_helper pack also gets the repo's structures. Returns the output directory, ready for setupBehaviorPack.
+ */
+export async function buildBehaviorPack(name: string, outputPath = BEHAVIOR_PACKS_OUTPUT_PATH): Promise<string> {
+  const sourceDir = path.join(PACKS_SOURCE_PATH, name);
+  const outDir = path.join(outputPath, name.replace(/-/g, '_'));
+  if (!fs.existsSync(path.join(sourceDir, 'manifest.ts'))) {
+    throw new Error(`Behavior pack source not found: ${sourceDir}`);
+  }
+
+  const { default: manifest } = await import(pathToFileURL(path.join(sourceDir, 'manifest.ts')).href);
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  const scriptsDir = path.join(sourceDir, 'scripts');
+  if (fs.existsSync(scriptsDir)) {
+    compileScripts(scriptsDir, path.join(outDir, 'scripts'));
+  }
+
+  // Repo structures ship with the test_helper pack so loadStructure finds them as "namespace:name" on any world
+  if (name === 'test-helper' && fs.existsSync(STRUCTURES_PATH)) {
+    fs.cpSync(STRUCTURES_PATH, path.join(outDir, 'structures'), { recursive: true });
+  }
+  return outDir;
+}
+
+// npm run build:packs
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  for (const name of listBehaviorPackSources()) {
+    const outDir = await buildBehaviorPack(name);
+    console.log(`Built ${name} -> ${outDir}`);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Manifest of the test_helper behavior pack, written to manifest.json by build.ts.
+ * The header UUID is what world_behavior_packs.json references, keep it stable.
+ */
+export const TEST_HELPER_PACK_UUID = 'a8d43bd0-cffd-4988-949a-5105e14bb5f2';
+export const TEST_HELPER_PACK_VERSION: [number, number, number] = [1, 0, 0];
+
+export default {
+  format_version: 2,
+  header: {
+    name: 'test_helper',
+    description: 'Answers scriptevent test:* queries so tests can verify server-side state',
+    uuid: TEST_HELPER_PACK_UUID,
+    version: TEST_HELPER_PACK_VERSION,
+    min_engine_version: [1, 21, 0],
+  },
+  modules: [
+    {
+      // Loads the pack's content, among it structures/ copied from the repo by build.ts
+      type: 'data',
+      uuid: 'c6a3824f-8dfb-4484-b94f-3a877da1f516',
+      version: [1, 0, 0],
+    },
+    {
+      type: 'script',
+      language: 'javascript',
+      uuid: '61246d3b-12f9-40b0-ae07-91862dc7a3ff',
+      version: [1, 0, 0],
+      entry: 'scripts/main.js',
+    },
+  ],
+  dependencies: [
+    {
+      module_name: '@minecraft/server',
+      version: '1.16.0',
+    },
+  ],
+};
@@ -0,0 +1,235 @@
+import { ItemStack, world, type Block, type Container, type Entity, type Player } from '@minecraft/server';
+
+export interface InventoryItem {
+  slot: number;
+  name: string;
+  count: number;
+}
+
+export interface BlockInfo {
+  name: string;
+  states: Record<string, string | number | boolean>;
+}
+
+export interface EntityInfo {
+  id: string;
+  type: string;
+  position: { x: number; y: number; z: number };
+  health?: number;
+  maxHealth?: number;
+  nameTag?: string;
+  /** Stack carried by item entities */
+  item?: { name: string; count: number };
+}
+
+// Keeps region responses to a few hundred console lines
+const MAX_REGION_BLOCKS = 32768;
+
+/**
+ * Handlers callable through the RPC bridge (`scriptevent test:rpc`) and the legacy `test:<name>` events.
+ * Params arrive as parsed JSON and each handler reads its own; it returns a JSON-serializable result
+ * and thrown errors are reported back to Node.
+ */
+export type Handler = (params: unknown) => unknown;
+
+type Params = Record<string, unknown>;
+
+function toParams(params: unknown): Params {
+  if (params === undefined || params === null) return {};
+  if (typeof params !== 'object' || Array.isArray(params)) {
+    throw new Error(`Invalid params: ${JSON.stringify(params)}`);
+  }
+  return params as Params;
+}
+
+function optionalString(params: Params, key: string): string | undefined {
+  const value = params[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${key}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function requiredString(params: Params, key: string): string {
+  const value = optionalString(params, key);
+  if (!value) {
+    throw new Error(`Missing ${key}`);
+  }
+  return value;
+}
+
+function optionalNumber(params: Params, key: string, fallback: number): number {
+  const value = params[key];
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`Invalid ${key}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function findPlayer(name: string): Player {
+  const players = name ? world.getPlayers({ name }) : world.getAllPlayers();
+  const player = players[0];
+  if (!player) {
+    throw new Error(name ? `Player not found: ${name}` : 'No players online');
+  }
+  return player;
+}
+
+function getContainer(player: Player): Container {
+  const container = player.getComponent('minecraft:inventory')?.container;
+  if (!container) {
+    throw new Error(`${player.name} has no inventory`);
+  }
+  return container;
+}
+
+function readItems(container: Container): InventoryItem[] {
+  const items: InventoryItem[] = [];
+  for (let slot = 0; slot < container.size; slot++) {
+    const item = container.getItem(slot);
+    if (item) {
+      items.push({ slot, name: item.typeId.replace(/^minecraft:/, ''), count: item.amount });
+    }
+  }
+  return items;
+}
+
+function toPosition(params: unknown): { x: number; y: number; z: number } {
+  const { x, y, z } = toParams(params);
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof z !== 'number' || [x, y, z].some(Number.isNaN)) {
+    throw new Error(`Invalid position: ${JSON.stringify(params)}`);
+  }
+  return { x, y, z };
+}
+
+function describeBlock(block: Block | undefined, position: { x: number; y: number; z: number }): BlockInfo {
+  if (!block) {
+    throw new Error(`Block at ${position.x} ${position.y} ${position.z} is not loaded`);
+  }
+  return { name: block.typeId.replace(/^minecraft:/, ''), states: block.permutation.getAllStates() };
+}
+
+function withNamespace(type: string): string {
+  return type.includes(':') ? type : `minecraft:${type}`;
+}
+
+function describeEntity(entity: Entity): EntityInfo {
+  const health = entity.getComponent('minecraft:health');
+  const item = entity.getComponent('minecraft:item')?.itemStack;
+  return {
+    id: entity.id,
+    type: entity.typeId.replace(/^minecraft:/, ''),
+    position: { x: entity.location.x, y: entity.location.y, z: entity.location.z },
+    health: health?.currentValue,
+    maxHealth: health?.effectiveMax,
+    nameTag: entity.nameTag || undefined,
+    item: item ? { name: item.typeId.replace(/^minecraft:/, ''), count: item.amount } : undefined,
+  };
+}
+
+export const handlers: Record<string, Handler> = {
+  ping: () => undefined,
+
+  inventory: (params) => readItems(getContainer(findPlayer(optionalString(toParams(params), 'player') ?? ''))),
+
+  state: (params) => {
+    const player = findPlayer(optionalString(toParams(params), 'player') ?? '');
+    const health = player.getComponent('minecraft:health');
+    return {
+      name: player.name,
+      position: { x: player.location.x, y: player.location.y, z: player.location.z },
+      health: health?.currentValue ?? 0,
+      maxHealth: health?.effectiveMax ?? 0,
+      gamemode: String(player.getGameMode()).toLowerCase(),
+      dimension: player.dimension.id.replace(/^minecraft:/, ''),
+    };
+  },
+
+  block_inventory: (params) => {
+    const position = toPosition(params);
+    const block = world.getDimension('overworld').getBlock(position);
+    const container = block?.getComponent('minecraft:inventory')?.container;
+    if (!container) {
+      throw new Error(`No container at ${position.x} ${position.y} ${position.z}`);
+    }
+    return { position, items: readItems(container) };
+  },
+
+  block: (params) => {
+    const position = toPosition(params);
+    return { position, ...describeBlock(world.getDimension('overworld').getBlock(position), position) };
+  },
+
+  /**
+   * Blocks of a cuboid as a palette plus one palette index per block, iterated x, then y, then z.
+   */
+  region: (params) => {
+    const fields = toParams(params);
+    const from = toPosition(fields.from);
+    const to = toPosition(fields.to);
+    const min = toPosition({ x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), z: Math.min(from.z, to.z) });
+    const max = toPosition({ x: Math.max(from.x, to.x), y: Math.max(from.y, to.y), z: Math.max(from.z, to.z) });
+    const volume = (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+    if (volume > MAX_REGION_BLOCKS) {
+      throw new Error(`Region has ${volume} blocks, the limit is ${MAX_REGION_BLOCKS}`);
+    }
+
+    const dimension = world.getDimension('overworld');
+    const palette: BlockInfo[] = [];
+    const paletteKeys = new Map<string, number>();
+    const indices: number[] = [];
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) {
+        for (let z = min.z; z <= max.z; z++) {
+          const info = describeBlock(dimension.getBlock({ x, y, z }), { x, y, z });
+          const key = JSON.stringify(info);
+          let index = paletteKeys.get(key);
+          if (index === undefined) {
+            index = palette.push(info) - 1;
+            paletteKeys.set(key, index);
+          }
+          indices.push(index);
+        }
+      }
+    }
+    return { from: min, to: max, palette, indices };
+  },
+
+  /**
+   * Entities within `radius` blocks of a position, optionally of one type.
+   */
+  entities: (params) => {
+    const fields = toParams(params);
+    const location = toPosition(fields);
+    const radius = optionalNumber(fields, 'radius', 32);
+    const type = optionalString(fields, 'type');
+    const entities = world.getDimension('overworld').getEntities({ location, maxDistance: radius, type: type ? withNamespace(type) : undefined });
+    return entities.map(describeEntity);
+  },
+
+  summon: (params) => {
+    const fields = toParams(params);
+    const nameTag = optionalString(fields, 'nameTag');
+    const spawnEvent = optionalString(fields, 'spawnEvent');
+    const entity = world.getDimension('overworld').spawnEntity(withNamespace(requiredString(fields, 'type')), toPosition(fields));
+    if (nameTag) entity.nameTag = nameTag;
+    if (spawnEvent) entity.triggerEvent(spawnEvent);
+    return describeEntity(entity);
+  },
+
+  spawn_item: (params) => {
+    const fields = toParams(params);
+    const item = new ItemStack(withNamespace(requiredString(fields, 'item')), optionalNumber(fields, 'count', 1));
+    return describeEntity(world.getDimension('overworld').spawnItem(item, toPosition(fields)));
+  },
+
+  clear: (params) => {
+    const container = getContainer(findPlayer(optionalString(toParams(params), 'player') ?? ''));
+    for (let slot = 0; slot < container.size; slot++) {
+      container.setItem(slot);
+    }
+    return undefined;
+  },
+};
@@ -0,0 +1,78 @@
+import { system } from '@minecraft/server';
+import { handlers } from './handlers.ts';
+
+const NAMESPACE = 'test:';
+// Console lines are cut by BDS, longer responses are split into numbered parts
+const MAX_PART_LENGTH = 1000;
+
+interface RpcRequest {
+  id: string;
+  method: string;
+  params?: unknown;
+}
+
+/**
+ * Print a response as `[RPC:<id>:<part>/<total>]<json slice>` lines (see src/shared/script-rpc.ts).
+ */
+function respond(id: string, response: { ok: true; result: unknown } | { ok: false; error: { name: string; message: string } }): void {
+  const payload = JSON.stringify(response);
+  const total = Math.max(1, Math.ceil(payload.length / MAX_PART_LENGTH));
+  for (let part = 0; part < total; part++) {
+    console.log(`[RPC:${id}:${part + 1}/${total}]${payload.slice(part * MAX_PART_LENGTH, (part + 1) * MAX_PART_LENGTH)}`);
+  }
+}
+
+function handleRpc(message: string): void {
+  let request: RpcRequest;
+  try {
+    request = JSON.parse(message);
+  } catch {
+    console.warn(`[TEST_ERROR]Malformed RPC request: ${message}`);
+    return;
+  }
+
+  const handler = handlers[request.method];
+  if (!handler) {
+    respond(request.id, { ok: false, error: { name: 'UnknownMethod', message: `Unknown method: ${request.method}` } });
+    return;
+  }
+
+  try {
+    respond(request.id, { ok: true, result: handler(request.params ?? {}) ?? null });
+  } catch (err) {
+    respond(request.id, { ok: false, error: { name: (err as Error).name ?? 'Error', message: (err as Error).message ?? String(err) } });
+  }
+}
+
+/**
+ * Legacy `test:<name> <message>` events, answered with a single `[TEST_<NAME>]<json>` line.
+ * The message is a player name, or "x y z" for block_inventory.
+ */
+function handleLegacy(name: string, message: string): void {
+  const handler = handlers[name];
+  if (!handler) {
+    console.warn(`[TEST_ERROR]Unknown test event: ${NAMESPACE}${name}`);
+    return;
+  }
+
+  const [x, y, z] = message.trim().split(/\s+/).map(Number);
+  const params = name === 'block_inventory' ? { x, y, z } : { player: message.trim() };
+  try {
+    const result = handler(params);
+    const tag = name === 'ping' ? 'PONG' : name.toUpperCase();
+    console.log(`[TEST_${tag}]${result === undefined ? '' : JSON.stringify(result)}`);
+  } catch (err) {
+    console.warn(`[TEST_ERROR]${(err as Error).message}`);
+  }
+}
+
+system.afterEvents.scriptEventReceive.subscribe((event) => {
+  if (!event.id.startsWith(NAMESPACE)) return;
+
+  const name = event.id.slice(NAMESPACE.length);
+  if (name === 'rpc') {
+    handleRpc(event.message);
+  } else {
+    handleLegacy(name, event.message);
+  }
+});
@@ -6,8 +6,6 @@ import pViewer from "prismarine-viewer";
 import { startExternalServer, ensureBDSInstalled, loadSettings } from "../../shared/index.ts";
 import path from "path";
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
 const settings = loadSettings();
 const VERSION = settings.BDS_VERSION;
 const BDS_PATH = settings.BDS_PATH;
@@ -27,16 +25,16 @@ async function main(): Promise<void> {
     gamemode: "creative",
   });
 
+  server.on("playerConnected", (player) => console.log(`Player joined: ${player.name}`));
+  server.on("playerDisconnected", (player) => console.log(`Player left: ${player.name}`));
+
   console.log("\n========================================");
   console.log("  CONNECTION DETAILS");
   console.log("========================================");
   console.log(`  Host: ${host}`);
   console.log(`  Port: ${port}`);
   console.log(`  BDS:  ${BDS_PATH}`);
-  console.log("========================================");
-  console.log("  Waiting 10 seconds before bot connects...");
   console.log("========================================\n");
-  await sleep(10000);
 
   const bot = createBot({
     host,
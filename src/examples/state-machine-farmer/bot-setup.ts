@@ -27,27 +27,33 @@ export function createFarmingBot(options: FarmingBotOptions): BedrockBot {
     username: 'bedrock-bot-1-21-130',
   }) as unknown as BedrockBot;
 
-  bot.once('inject_allowed', () => {
-    bot.loadPlugin(mineflayerPathfinder.pathfinder);
-    // @ts-ignore
-    bot.defaultMovements = new mineflayerPathfinder.Movements(bot);
-    bot.defaultMovements.canDig = true;
-    bot.defaultMovements.allow1by1towers = true;
-    bot.defaultMovements.allowFreeMotion = true;
-    bot.defaultMovements.allowParkour = true;
-    bot.defaultMovements.allowSprinting = false;
-
-    setTimeout(() => {
-      bot.defaultMovements.scafoldingBlocks.push(bot.registry.itemsByName.dirt.id);
-    }, 1000);
-
-    bot.pathfinder.setMovements(bot.defaultMovements);
-  });
+  bot.once('inject_allowed', () => farmingPlugin(bot as unknown as Bot));
 
   return bot;
 }
 
-export function startStateMachine(bot: BedrockBot): void {
+/**
+ * Pathfinder and the movement settings the farming states rely on, as a mineflayer plugin.
+ */
+export function farmingPlugin(mineflayerBot: Bot): void {
+  const bot = mineflayerBot as unknown as BedrockBot;
+  bot.loadPlugin(mineflayerPathfinder.pathfinder);
+  // @ts-ignore
+  bot.defaultMovements = new mineflayerPathfinder.Movements(bot);
+  bot.defaultMovements.canDig = true;
+  bot.defaultMovements.allow1by1towers = true;
+  bot.defaultMovements.allowFreeMotion = true;
+  bot.defaultMovements.allowParkour = true;
+  bot.defaultMovements.allowSprinting = false;
+
+  setTimeout(() => {
+    bot.defaultMovements.scafoldingBlocks.push(bot.registry.itemsByName.dirt.id);
+  }, 1000);
+
+  bot.pathfinder.setMovements(bot.defaultMovements);
+}
+
+export function startStateMachine(bot: BedrockBot, options: { webserver?: boolean } = {}): void {
   bot.farmingContext = createFarmingContext();
 
   const machine = new BotStateMachine({
@@ -63,6 +69,9 @@ export function startStateMachine(bot: BedrockBot): void {
 
   machine.start();
 
+  // Only one webserver per process, reconnected bots skip it
+  if (options.webserver === false) return;
+
   const positions = new WebserverBehaviorPositions()
     .set(IdleState, 100, 200)
     .set(DepositState, 100, 350)
@@ -1,13 +1,14 @@
 import { startExternalServer, ensureBDSInstalled } from '../../shared/external-server.ts';
+import { waitForServerPlayerSpawn } from '../../shared/test-utils.ts';
+import { startDriftMonitor } from '../../shared/drift-monitor.ts';
+import { buildFunctionPack } from '../../shared/command-batch.ts';
 import { VERSION, BDS_PATH } from './config.ts';
 import { fileURLToPath } from 'url';
-import { setupFarm } from './setup.ts';
+import { FARM_SETUP_FUNCTION, farmSetupBatch, setupFarm } from './setup.ts';
 import { createFarmingBot, startStateMachine } from './bot-setup.ts';
 import path from 'path';
 import pViewer from "prismarine-viewer";
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
 const args = process.argv.slice(2);
 const host = args[0] || '127.0.0.1';
 const port = parseInt(args[1]) || 19134; // 19132-19133 reserved for LAN discovery
@@ -19,39 +20,79 @@ async function main(): Promise<void> {
   const templateWorldPath = path.resolve(__dirname, '..', '..', '..', 'worlds', 'state-machine-farmer');
 
   await ensureBDSInstalled(VERSION, BDS_PATH);
+  // The farm is built by one `function` call instead of a few hundred console commands
+  const functionPack = buildFunctionPack('farmer_functions', { [FARM_SETUP_FUNCTION]: farmSetupBatch() });
   const server = await startExternalServer({
     port,
     bdsPath: path.normalize(BDS_PATH),
     worldName: 'state-machine-farmer',
     templateWorldPath,
+    behaviorPacks: [functionPack],
+    // SUPERVISE=1 restarts BDS after a crash, so soak runs keep going overnight
+    supervise: !!process.env.SUPERVISE,
+    // RANDOM_TICK_SPEED=100 grows crops in seconds, for a quick harvest-plant cycle
+    worldSettings: process.env.RANDOM_TICK_SPEED ? { gameRules: { randomTickSpeed: parseInt(process.env.RANDOM_TICK_SPEED) } } : undefined,
   });
 
-  // Print connection details and wait for user to connect
+  server.on('playerConnected', (player) => console.log(`Player joined: ${player.name}`));
+  server.on('playerDisconnected', (player) => console.log(`Player left: ${player.name}`));
+
+  // Print connection details
   console.log('\n========================================');
   console.log('  CONNECTION DETAILS');
   console.log('========================================');
   console.log(`  Host: ${host}`);
   console.log(`  Port: ${port}`);
   console.log(`  BDS:  ${BDS_PATH}`);
-  console.log('========================================');
-  console.log('  Waiting 10 seconds before bot connects...');
   console.log('========================================\n');
-  await sleep(10000);
 
-  const bot = createFarmingBot({ host, port, version: VERSION });
+  let firstSpawn = true;
+
+  function connectBot(): void {
+    const bot = createFarmingBot({ host, port, version: VERSION });
+    const serverSpawn = waitForServerPlayerSpawn(server, bot.username);
 
-  bot.on('error', (err) => console.error('Bot error:', err));
-  bot.on('end', () => console.log('Bot disconnected'));
+    bot.on('error', (err) => console.error('Bot error:', err));
+    bot.on('end', () => console.log('Bot disconnected'));
 
-  bot.once('spawn', async () => {
-    console.log('Bot spawned!');
-    await bot.waitForChunksToLoad();
+    bot.once('spawn', async () => {
+      console.log('Bot spawned!');
+      await serverSpawn;
+      await bot.waitForChunksToLoad();
 
-     pViewer.bedrockMineflayer(bot, {firstPerson: false, javaVersion: '1.21.11', port: 3000, viewDistance:5})
+      if (firstSpawn) {
+        pViewer.bedrockMineflayer(bot, {firstPerson: false, javaVersion: '1.21.11', port: 3000, viewDistance:5})
+        await setupFarm(server, bot.username, { setupFunction: FARM_SETUP_FUNCTION });
+      }
 
-    await setupFarm(server, bot.username);
-    startStateMachine(bot);    
+      startStateMachine(bot, { webserver: firstSpawn });
+      firstSpawn = false;
+
+      // DRIFT_MONITOR=1 compares the bot's physics with the server while it farms
+      if (process.env.DRIFT_MONITOR) {
+        const drift = startDriftMonitor(bot, server, {
+          onViolation: (v) => console.warn(`[Drift] ${v.kind}: ${v.message}`),
+        });
+        const reportTimer = setInterval(() => console.log(drift.report()), 60000);
+        bot.once('end', () => {
+          clearInterval(reportTimer);
+          drift.stop().then(() => console.log(drift.report()));
+        });
+      }
+    });
+  }
+
+  server.on('restarting', (restart) => console.log(`Server crashed, restart attempt ${restart.attempt} in ${restart.delay}ms`));
+  server.on('restarted', () => {
+    console.log('Server restarted, reconnecting bot...');
+    connectBot();
   });
+  server.on('restartFailed', ({ error }) => {
+    console.error('Fatal:', error.message);
+    process.exit(1);
+  });
+
+  connectBot();
 }
 
 main().catch((err) => {
@@ -176,197 +176,20 @@ export async function killEntities(server: ExternalServer, entityType: string):
 
 // ============================================================================
 // Server State Verification - Query server state via behavior pack
-// Requires test_helper behavior pack to be installed
+// Implemented once in src/shared on top of the script RPC bridge
 // ============================================================================
 
-export interface ServerInventoryItem {
-  slot: number;
-  name: string;
-  count: number;
-}
-
-export interface ServerPlayerState {
-  name: string;
-  position: { x: number; y: number; z: number };
-  health: number;
-  maxHealth: number;
-  gamemode: string;
-  dimension: string;
-}
-
-export interface ServerBlockInventory {
-  position: { x: number; y: number; z: number };
-  items: ServerInventoryItem[];
-}
-
-export interface InventoryDiff {
-  matches: boolean;
-  clientOnly: ServerInventoryItem[];
-  serverOnly: ServerInventoryItem[];
-  countMismatches: Array<{
-    slot: number;
-    name: string;
-    clientCount: number;
-    serverCount: number;
-  }>;
-}
-
-/**
- * Ping the behavior pack to verify it's loaded.
- * Requires test_helper behavior pack.
- */
-export async function pingBehaviorPack(server: ExternalServer): Promise<boolean> {
-  try {
-    await server.sendCommand('scriptevent test:ping');
-    await server.waitForOutput(/\[TEST_PONG\]/, 5000);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Get server-side player inventory.
- * Requires test_helper behavior pack.
- */
-export async function getServerInventory(server: ExternalServer, playerName?: string): Promise<ServerInventoryItem[]> {
-  const message = playerName ?? '';
-  await server.sendCommand(`scriptevent test:inventory ${message}`);
-  const output = await server.waitForOutput(/\[TEST_INVENTORY\](.+)/, 5000);
-  const match = output.match(/\[TEST_INVENTORY\](.+)/);
-  if (!match) {
-    throw new Error('Failed to parse server inventory response');
-  }
-  return JSON.parse(match[1]);
-}
-
-/**
- * Get server-side player state.
- * Requires test_helper behavior pack.
- */
-export async function getServerPlayerState(server: ExternalServer, playerName?: string): Promise<ServerPlayerState> {
-  const message = playerName ?? '';
-  await server.sendCommand(`scriptevent test:state ${message}`);
-  const output = await server.waitForOutput(/\[TEST_STATE\](.+)/, 5000);
-  const match = output.match(/\[TEST_STATE\](.+)/);
-  if (!match) {
-    throw new Error('Failed to parse server state response');
-  }
-  return JSON.parse(match[1]);
-}
-
-/**
- * Get server-side block inventory at position.
- * Requires test_helper behavior pack.
- */
-export async function getServerBlockInventory(server: ExternalServer, x: number, y: number, z: number): Promise<ServerBlockInventory> {
-  await server.sendCommand(`scriptevent test:block_inventory ${x} ${y} ${z}`);
-  const output = await server.waitForOutput(/\[TEST_BLOCK_INVENTORY\](.+)/, 5000);
-  const match = output.match(/\[TEST_BLOCK_INVENTORY\](.+)/);
-  if (!match) {
-    throw new Error('Failed to parse block inventory response');
-  }
-  return JSON.parse(match[1]);
-}
-
-/**
- * Clear player inventory via behavior pack.
- * Requires test_helper behavior pack.
- */
-export async function clearInventoryViaBehaviorPack(server: ExternalServer, playerName?: string): Promise<void> {
-  const message = playerName ?? '';
-  await server.sendCommand(`scriptevent test:clear ${message}`);
-  await server.waitForOutput(/\[TEST_CLEAR\]/, 5000);
-}
-
-/**
- * Compare client inventory state with server inventory state.
- */
-export function compareInventory(clientItems: Array<{ slot: number; name: string; count: number }>, serverItems: ServerInventoryItem[]): InventoryDiff {
-  const clientMap = new Map(clientItems.map((i) => [`${i.slot}:${i.name}`, i]));
-  const serverMap = new Map(serverItems.map((i) => [`${i.slot}:${i.name}`, i]));
-
-  const clientOnly: ServerInventoryItem[] = [];
-  const serverOnly: ServerInventoryItem[] = [];
-  const countMismatches: InventoryDiff['countMismatches'] = [];
-
-  for (const [key, clientItem] of clientMap) {
-    const serverItem = serverMap.get(key);
-    if (!serverItem) {
-      clientOnly.push(clientItem);
-    } else if (clientItem.count !== serverItem.count) {
-      countMismatches.push({
-        slot: clientItem.slot,
-        name: clientItem.name,
-        clientCount: clientItem.count,
-        serverCount: serverItem.count,
-      });
-    }
-  }
-
-  for (const [key, serverItem] of serverMap) {
-    if (!clientMap.has(key)) {
-      serverOnly.push(serverItem);
-    }
-  }
-
-  return {
-    matches: clientOnly.length === 0 && serverOnly.length === 0 && countMismatches.length === 0,
-    clientOnly,
-    serverOnly,
-    countMismatches,
-  };
-}
-
-/**
- * Assert that client and server inventory states match.
- * Throws with detailed diff on mismatch.
- */
-export function assertInventoryMatch(clientItems: Array<{ slot: number; name: string; count: number }>, serverItems: ServerInventoryItem[], message?: string): void {
-  const diff = compareInventory(clientItems, serverItems);
-  if (!diff.matches) {
-    const details = [
-      message || 'Inventory mismatch',
-      diff.clientOnly.length > 0 ? `Client only: ${JSON.stringify(diff.clientOnly)}` : '',
-      diff.serverOnly.length > 0 ? `Server only: ${JSON.stringify(diff.serverOnly)}` : '',
-      diff.countMismatches.length > 0 ? `Count mismatches: ${JSON.stringify(diff.countMismatches)}` : '',
-    ]
-      .filter(Boolean)
-      .join('\n');
-    throw new Error(details);
-  }
-}
-
-/**
- * Get client inventory as array of items for comparison.
- * By default only includes main inventory slots (0-35) to match server inventory query.
- * Set includeEquipment=true to also include armor (36-39) and offhand (41) slots.
- */
-export function getClientInventory(bot: Bot, includeEquipment = false): Array<{ slot: number; name: string; count: number }> {
-  const items: Array<{ slot: number; name: string; count: number }> = [];
-  // Main inventory is slots 0-35
-  // Armor is 36-39 (head, chest, legs, feet)
-  // Slot 40 is crafting output
-  // Offhand is 41
-  const maxSlot = includeEquipment ? bot.inventory.slots.length : 36;
-  for (let i = 0; i < maxSlot; i++) {
-    const item = bot.inventory.slots[i];
-    if (item) {
-      items.push({
-        slot: i,
-        name: item.name,
-        count: item.count,
-      });
-    }
-  }
-  // If including equipment, also check offhand (slot 41)
-  if (includeEquipment && bot.inventory.slots[41]) {
-    const item = bot.inventory.slots[41];
-    items.push({
-      slot: 41,
-      name: item.name,
-      count: item.count,
-    });
-  }
-  return items;
-}
+export {
+  type ServerInventoryItem,
+  type ServerPlayerState,
+  type ServerBlockInventory,
+  type InventoryDiff,
+  pingBehaviorPack,
+  getServerInventory,
+  getServerPlayerState,
+  getServerBlockInventory,
+  clearInventoryViaBehaviorPack,
+  compareInventory,
+  assertInventoryMatch,
+  getClientInventory,
+} from '../../../shared/test-utils.ts';
@@ -0,0 +1,124 @@
+import type { BedrockBot, Bot } from 'mineflayer';
+import { type Scenario, type ScenarioBot, defineScenario, expectEventually, expectInventoryMatch, expectRegionMatch } from '../../shared/scenario.ts';
+import { getServerBlock, getServerBlockInventory, getServerRegion } from '../../shared/test-utils.ts';
+import type { WorldSettings } from '../../shared/world-rules.ts';
+import type { ServerBackend } from '../../shared/external-server.ts';
+import { farmingPlugin, startStateMachine } from './bot-setup.ts';
+import { FARM_BASE_X, FARM_BASE_Y, FARM_BASE_Z } from './config.ts';
+import { DEPOSIT_THRESHOLD } from './constants.ts';
+
+// npm run scenarios -- src/examples/state-machine-farmer/scenarios.ts
+
+const BOT = 'FarmerBot';
+const [x, y, z] = [FARM_BASE_X, FARM_BASE_Y, FARM_BASE_Z];
+
+// The farmer breaks and places blocks, which the stand-in server can't do
+const backends: ServerBackend[] = ['bds'];
+
+// Nothing but the bot changes the world while a scenario runs
+const world: WorldSettings = {
+  gameRules: { doDaylightCycle: false, doWeatherCycle: false, doMobSpawning: false },
+  time: 'noon',
+  weather: 'clear',
+};
+
+const farmer: ScenarioBot = {
+  username: BOT,
+  plugins: [farmingPlugin],
+  position: { x, y: y + 2, z: z - 6 },
+  async setup(bot) {
+    await bot.waitForChunksToLoad();
+    startStateMachine(bot as unknown as BedrockBot, { webserver: false });
+  },
+};
+
+/** Flat grass ground with clear air above, the same for every scenario */
+const ground = [`fill ${x - 10} ${y} ${z - 10} ${x + 10} ${y} ${z + 10} grass_block`, `fill ${x - 10} ${y + 1} ${z - 10} ${x + 10} ${y + 8} ${z + 10} air`];
+
+/** 5x5 farmland patch around the farm center */
+const patch = { from: { x: x - 2, y: y + 1, z: z - 2 }, to: { x: x + 2, y: y + 1, z: z + 2 } };
+const farmland = `fill ${x - 2} ${y} ${z - 2} ${x + 2} ${y} ${z + 2} farmland`;
+
+function countItem(bot: Bot, name: string): number {
+  let count = 0;
+  for (const item of bot.inventory.items()) {
+    if (item.name === name) count += item.count;
+  }
+  return count;
+}
+
+export const harvestScenario = defineScenario({
+  name: 'farmer harvests mature wheat',
+  world,
+  backends,
+  bots: [farmer],
+  setup: [...ground, farmland, `fill ${patch.from.x} ${patch.from.y} ${patch.from.z} ${patch.to.x} ${patch.to.y} ${patch.to.z} wheat ["growth"=7]`],
+  assertions: [
+    expectEventually('bot collected wheat', (ctx) => countItem(ctx.bot, 'wheat') > 0, 60000),
+    expectInventoryMatch(),
+  ],
+});
+
+export const plantScenario = defineScenario({
+  name: 'farmer plants seeds on empty farmland',
+  world,
+  backends,
+  bots: [farmer],
+  setup: [...ground, farmland, `give ${BOT} wheat_seeds 32`],
+  assertions: [
+    expectEventually(
+      'every farmland block has wheat',
+      async (ctx) => (await getServerRegion(ctx.server, patch.from, patch.to)).every((block) => block.name === 'wheat'),
+      90000,
+      1000
+    ),
+    expectRegionMatch(patch.from, patch.to, { ignoreStates: ['growth'] }),
+    expectInventoryMatch(),
+  ],
+});
+
+const chest = { x: x + 3, y: y + 1, z };
+
+export const depositScenario = defineScenario({
+  name: 'farmer deposits harvest into the chest',
+  world,
+  backends,
+  bots: [farmer],
+  setup: [...ground, `setblock ${chest.x} ${chest.y} ${chest.z} chest`, `give ${BOT} wheat ${DEPOSIT_THRESHOLD + 64}`],
+  assertions: [
+    expectEventually(
+      'chest holds wheat',
+      async (ctx) => (await getServerBlockInventory(ctx.server, chest.x, chest.y, chest.z)).items.some((item) => item.name === 'wheat'),
+      60000,
+      1000
+    ),
+    expectInventoryMatch(),
+  ],
+});
+
+const tree = { x, y: y + 1, z: z + 4 };
+
+export const cutTreeScenario = defineScenario({
+  name: 'farmer cuts down a tree',
+  world,
+  backends,
+  bots: [farmer],
+  setup: [
+    ...ground,
+    `fill ${tree.x} ${tree.y} ${tree.z} ${tree.x} ${tree.y + 2} ${tree.z} oak_log`,
+    `setblock ${tree.x} ${tree.y + 3} ${tree.z} oak_leaves`,
+    `give ${BOT} netherite_axe 1`,
+  ],
+  assertions: [
+    expectEventually(
+      'tree trunk is gone',
+      async (ctx) => (await getServerBlock(ctx.server, tree.x, tree.y, tree.z)).name !== 'oak_log',
+      60000,
+      1000
+    ),
+    expectEventually('bot collected logs', (ctx) => countItem(ctx.bot, 'oak_log') > 0, 10000),
+    expectInventoryMatch(),
+  ],
+});
+
+export const scenarios: Scenario[] = [harvestScenario, plantScenario, depositScenario, cutTreeScenario];
@@ -1,9 +1,20 @@
-import { type ExternalServer } from './minecraft-bedrock-test-server/external-server.ts';
-import { giveItem, setBlock, teleportPlayer } from './minecraft-bedrock-test-server/external-test-utils.ts';
+import { type ExternalServer } from '../../shared/external-server.ts';
+import { giveItem, teleportPlayer } from '../../shared/test-utils.ts';
+import { hasRepoStructure, loadStructure } from '../../shared/regions.ts';
+import { type CommandBatch, assertBatchSucceeded, createCommandBatch, runFunction } from '../../shared/command-batch.ts';
 import { FARM_BASE_X, FARM_BASE_Y, FARM_BASE_Z, FARM_SIZE, getWaterPositions, STARTING_ITEMS } from './config.ts';
 import { sleep } from './utils/index.ts';
 
-export async function setupFarm(server: ExternalServer, playerName: string): Promise<void> {
+const FARM_STRUCTURE = 'farmer:farm';
+/** Function name of farmSetupBatch() when compiled with buildFunctionPack */
+export const FARM_SETUP_FUNCTION = 'farmer/setup';
+
+export interface SetupFarmOptions {
+  /** Run the farm commands as this function from an installed pack instead of one by one */
+  setupFunction?: string;
+}
+
+export async function setupFarm(server: ExternalServer, playerName: string, options: SetupFarmOptions = {}): Promise<void> {
   console.log('Setting up farm...');
   const { baseX, baseY, baseZ, size } = {
     baseX: FARM_BASE_X,
@@ -15,45 +26,64 @@ export async function setupFarm(server: ExternalServer, playerName: string): Pro
   await teleportPlayer(server, playerName, baseX - size - 1, baseY + 2, baseZ - size - 1);
   await sleep(500);
 
-  await createFarmland(server, baseX, baseY, baseZ, size);
-  await addWaterSources(server, baseX, baseY, baseZ, size);
-  await plantCrops(server, baseX, baseY, baseZ, size);
-  await removeTemporaryBlocks(server, baseX, baseY, baseZ, size);
+  // A saved farm (structures/farmer/farm.mcstructure, farm, chest and trees) replaces the commands below
+  if (hasRepoStructure(FARM_STRUCTURE)) {
+    await loadStructure(server, FARM_STRUCTURE, { x: baseX - size - 3, y: baseY, z: baseZ - size - 2 });
+  } else if (options.setupFunction) {
+    const executed = await runFunction(server, options.setupFunction);
+    console.log(`Ran ${options.setupFunction}: ${executed} commands`);
+  } else {
+    // Only setblock and fill, safe to resend
+    const result = await farmSetupBatch().run(server, { retries: 2 });
+    assertBatchSucceeded(result, 'Farm setup failed');
+    console.log(`Ran ${result.results.length} setup commands in ${result.duration}ms`);
+  }
 
   for (const item of STARTING_ITEMS) {
     await giveItem(server, playerName, item.name, item.count);
   }
 
-  await setBlock(server, baseX, baseY + 1, baseZ - size - 2, 'chest');
-  await placeTree(server, baseX - size - 3, baseY, baseZ);
-  await placeTree(server, baseX + size + 3, baseY, baseZ);
-
   await sleep(2000);
   console.log('Farm setup complete!');
 }
 
-async function createFarmland(server: ExternalServer, x: number, y: number, z: number, size: number): Promise<void> {
-  await server.sendCommand(`fill ${x - size} ${y} ${z - size} ${x + size} ${y} ${z + size} farmland`);
-  await sleep(100);
+/**
+ * Commands that build the farm, chest and trees around the configured farm center.
+ */
+export function farmSetupBatch(): CommandBatch {
+  const batch = createCommandBatch();
+  const [x, y, z, size] = [FARM_BASE_X, FARM_BASE_Y, FARM_BASE_Z, FARM_SIZE];
+  createFarmland(batch, x, y, z, size);
+  addWaterSources(batch, x, y, z, size);
+  plantCrops(batch, x, y, z, size);
+  removeTemporaryBlocks(batch, x, y, z, size);
+  batch.add(`setblock ${x} ${y + 1} ${z - size - 2} chest`);
+  placeTree(batch, x - size - 3, y, z);
+  placeTree(batch, x + size + 3, y, z);
+  return batch;
+}
+
+function createFarmland(batch: CommandBatch, x: number, y: number, z: number, size: number): void {
+  batch.add(`fill ${x - size} ${y} ${z - size} ${x + size} ${y} ${z + size} farmland`);
 }
 
-async function addWaterSources(server: ExternalServer, x: number, y: number, z: number, size: number): Promise<void> {
+function addWaterSources(batch: CommandBatch, x: number, y: number, z: number, size: number): void {
   for (const [dx, dz] of getWaterPositions(size)) {
-    await server.sendCommand(`setblock ${x + dx} ${y} ${z + dz} water`);
-    await server.sendCommand(`setblock ${x + dx} ${y} ${z + dz} stone_slab ["stone_slab_type"="smooth_stone","top_slot_bit"=true]`);
-    await server.sendCommand(`setblock ${x + dx} ${y + 1} ${z + dz} glass`);
+    batch.add(
+      `setblock ${x + dx} ${y} ${z + dz} water`,
+      `setblock ${x + dx} ${y} ${z + dz} stone_slab ["stone_slab_type"="smooth_stone","top_slot_bit"=true]`,
+      `setblock ${x + dx} ${y + 1} ${z + dz} glass`
+    );
   }
-  await sleep(100);
 }
 
-async function removeTemporaryBlocks(server: ExternalServer, x: number, y: number, z: number, size: number): Promise<void> {
+function removeTemporaryBlocks(batch: CommandBatch, x: number, y: number, z: number, size: number): void {
   for (const [dx, dz] of getWaterPositions(size)) {
-    await server.sendCommand(`setblock ${x + dx} ${y + 1} ${z + dz} air`);
+    batch.add(`setblock ${x + dx} ${y + 1} ${z + dz} air`);
   }
-  await sleep(100);
 }
 
-async function plantCrops(server: ExternalServer, x: number, y: number, z: number, size: number): Promise<void> {
+function plantCrops(batch: CommandBatch, x: number, y: number, z: number, size: number): void {
   const crops = [
     { name: 'carrots', x1: x - size, z1: z - size, x2: x - 1, z2: z - 1 },
     { name: 'potatoes', x1: x + 1, z1: z - size, x2: x + size, z2: z - 1 },
@@ -65,15 +95,14 @@ async function plantCrops(server: ExternalServer, x: number, y: number, z: numbe
     { name: 'beetroot', x1: x + 1, z1: z, x2: x + size, z2: z },
   ];
   for (const c of crops) {
-    await server.sendCommand(`fill ${c.x1} ${y + 1} ${c.z1} ${c.x2} ${y + 1} ${c.z2} ${c.name} ["growth"=7] replace air`);
+    batch.add(`fill ${c.x1} ${y + 1} ${c.z1} ${c.x2} ${y + 1} ${c.z2} ${c.name} ["growth"=7] replace air`);
   }
-  await sleep(100);
 }
 
-async function placeTree(server: ExternalServer, x: number, y: number, z: number): Promise<void> {
-  await setBlock(server, x, y, z, 'dirt');
+function placeTree(batch: CommandBatch, x: number, y: number, z: number): void {
+  batch.add(`setblock ${x} ${y} ${z} dirt`);
   for (let i = 1; i <= 3; i++) {
-    await server.sendCommand(`setblock ${x} ${y + i} ${z} oak_log`);
+    batch.add(`setblock ${x} ${y + i} ${z} oak_log`);
   }
-  await server.sendCommand(`setblock ${x} ${y + 4} ${z} oak_leaves`);
+  batch.add(`setblock ${x} ${y + 4} ${z} oak_leaves`);
 }
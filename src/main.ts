@@ -1,6 +1,13 @@
 import { select, input } from "@inquirer/prompts";
 import { examples } from "./examples/index.ts";
 import { loadSettings, saveSettings } from "./shared/settings.ts";
+import {
+  installVersion,
+  listAvailableVersions,
+  listInstalledVersions,
+  pruneVersions,
+  verifyInstall,
+} from "./shared/bds-versions.ts";
 
 const arg = process.argv[2];
 
@@ -12,6 +19,7 @@ async function showSettings(): Promise<void> {
   console.log("========================================");
   console.log(`  BDS Path:    ${settings.BDS_PATH}`);
   console.log(`  BDS Version: ${settings.BDS_VERSION}`);
+  console.log(`  BDS Cache:   ${settings.BDS_CACHE_PATH}`);
   console.log("========================================\n");
 
   const action = await select({
@@ -19,6 +27,7 @@ async function showSettings(): Promise<void> {
     choices: [
       { name: "Change BDS Path", value: "path" },
       { name: "Change BDS Version", value: "version" },
+      { name: "Manage BDS versions", value: "versions" },
       { name: "Back to main menu", value: "back" },
     ],
   });
@@ -39,7 +48,84 @@ async function showSettings(): Promise<void> {
     saveSettings({ BDS_VERSION: newVersion });
     console.log(`\nBDS version updated to: ${newVersion}\n`);
     await showSettings();
+  } else if (action === "versions") {
+    await showVersionManager();
+    await showSettings();
+  }
+}
+
+async function showVersionManager(): Promise<void> {
+  const settings = loadSettings();
+  const installed = listInstalledVersions();
+
+  console.log("\n========================================");
+  console.log("  CACHED BDS VERSIONS");
+  console.log("========================================");
+  if (installed.length === 0) {
+    console.log("  (none)");
   }
+  for (const v of installed) {
+    const current = v.version === settings.BDS_VERSION ? " (current)" : "";
+    const lastUsed = v.manifest ? v.manifest.lastUsedAt.slice(0, 10) : "incomplete";
+    console.log(`  ${v.version.padEnd(14)} ${lastUsed}${current}`);
+  }
+  console.log("========================================\n");
+
+  const action = await select({
+    message: "Version manager:",
+    choices: [
+      { name: "Show available versions", value: "available" },
+      { name: "Install a version", value: "install" },
+      { name: "Switch to an installed version", value: "switch" },
+      { name: "Verify installed versions", value: "verify" },
+      { name: "Prune old versions", value: "prune" },
+      { name: "Change cache path", value: "cache" },
+      { name: "Back", value: "back" },
+    ],
+  });
+
+  try {
+    if (action === "available") {
+      for (const v of await listAvailableVersions()) {
+        console.log(`  ${v.version} (${v.channel})`);
+      }
+    } else if (action === "install") {
+      const version = await input({ message: "Version to install (or 'latest'):", default: "latest" });
+      const versionPath = await installVersion(version);
+      console.log(`\nInstalled at: ${versionPath}`);
+    } else if (action === "switch") {
+      if (installed.length === 0) {
+        console.log("\nNo cached versions, install one first");
+      } else {
+        const version = await select({
+          message: "Select version:",
+          choices: installed.map(v => ({ name: v.version, value: v.version })),
+        });
+        saveSettings({ BDS_VERSION: version });
+        console.log(`\nBDS version updated to: ${version} (linked into ${settings.BDS_PATH} on next start)`);
+      }
+    } else if (action === "verify") {
+      for (const v of installed) {
+        const result = verifyInstall(v.path);
+        console.log(`  ${v.version}: ${result.valid ? "OK" : result.problems.slice(0, 5).join("; ")}`);
+      }
+    } else if (action === "prune") {
+      const keep = await input({ message: "Number of recently used versions to keep:", default: "2" });
+      const removed = pruneVersions({ keep: parseInt(keep, 10) || 0 });
+      console.log(removed.length ? `\nRemoved: ${removed.join(", ")}` : "\nNothing to prune");
+    } else if (action === "cache") {
+      const newPath = await input({ message: "Enter BDS cache path:", default: settings.BDS_CACHE_PATH });
+      saveSettings({ BDS_CACHE_PATH: newPath });
+      console.log(`\nBDS cache path updated to: ${newPath}`);
+    } else {
+      return;
+    }
+  } catch (err) {
+    console.error(`\n${(err as Error).message}`);
+  }
+
+  console.log("");
+  await showVersionManager();
 }
 
 async function main() {
@@ -62,7 +148,7 @@ async function main() {
           name: `${e.name} - ${e.description}`,
           value: e.id
         })),
-        { name: "Settings - Configure BDS path and version", value: "settings" },
+        { name: "Settings - Configure BDS path and versions", value: "settings" },
       ],
     });
   }
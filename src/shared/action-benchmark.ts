@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { performance } from 'perf_hooks';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+import type { Bot, Plugin } from 'mineflayer';
+import mineflayerPathfinder from 'mineflayer-pathfinder';
+import { Vec3 } from 'vec3';
+import type { ExternalServer, ExternalServerOptions, ServerBackend } from './external-server.ts';
+import { assertBatchSucceeded, createCommandBatch } from './command-batch.ts';
+import {
+  type ActionStats,
+  type BenchmarkReport,
+  BENCHMARK_FORMAT,
+  compareBenchmarkReports,
+  formatBenchmarkComparison,
+  formatBenchmarkReport,
+  latencyStats,
+  readBenchmarkReport,
+} from './benchmark-report.ts';
+import {
+  type BlockPosition,
+  connectBotToExternalServer,
+  giveItem,
+  startServer,
+  teleportPlayerAndSync,
+  waitForBotSpawn,
+  waitForServerPlayerSpawn,
+} from './test-utils.ts';
+import { waitForBlockChange, waitForEvent, waitForInventoryChange } from './waiters.ts';
+const { goals } = mineflayerPathfinder;
+
+export interface BenchmarkContext {
+  server: ExternalServer;
+  bot: Bot;
+  /** Block the bot stands on top of at the start of every action */
+  origin: Vec3;
+  /** Sample number, warmup samples included */
+  iteration: number;
+}
+
+/**
+ * One timed bot action. Only `run` is timed; `settle` is timed separately from the moment `run` resolved
+ * and waits until the bot's own view of the world shows the result.
+ */
+export interface BenchmarkAction<T = void> {
+  name: string;
+  /** Backends the action works on (default: all) */
+  backends?: ServerBackend[];
+  /** Untimed preparation, its result is passed to the other steps */
+  prepare?(ctx: BenchmarkContext): Promise<T> | T;
+  run(ctx: BenchmarkContext, prepared: T): Promise<unknown>;
+  settle?(ctx: BenchmarkContext, prepared: T, timeout: number): Promise<unknown>;
+  /** Untimed cleanup, also after failures */
+  cleanup?(ctx: BenchmarkContext, prepared: T | undefined): Promise<void> | void;
+}
+
+export interface ActionBenchmarkOptions extends ExternalServerOptions {
+  /** Measured samples per action (default: 20) */
+  iterations?: number;
+  /** Unmeasured samples before the measured ones (default: 2) */
+  warmup?: number;
+  /** Action names to run (default: all of BENCHMARK_ACTIONS) */
+  actions?: string[];
+  /** Time limit per run and per settle in ms (default: 10000) */
+  actionTimeout?: number;
+  /** Block the bot stands on; the benchmark area is built around it (default: 40 -1 40) */
+  origin?: BlockPosition;
+  username?: string;
+  /** Plugins for the bot (default: pathfinder with default movements) */
+  plugins?: Plugin[];
+  /** Called after each measured sample */
+  onSample?: (action: string, iteration: number, duration: number | null, error?: Error) => void;
+}
+
+// Movements takes the Bot type mineflayer-pathfinder was built against, which doesn't line up with the bedrock fork's
+type PathfinderBot = ConstructorParameters<typeof mineflayerPathfinder.Movements>[0];
+
+function pathfinderPlugin(bot: Bot): void {
+  bot.loadPlugin(mineflayerPathfinder.pathfinder);
+  bot.pathfinder.setMovements(new mineflayerPathfinder.Movements(bot as unknown as PathfinderBot));
+}
+
+function findItem(bot: Bot, name: string) {
+  return bot.inventory.items().find((item: { name: string }) => item.name === name) ?? null;
+}
+
+/** Give more of an item when the bot ran out, untimed */
+async function ensureItem(ctx: BenchmarkContext, name: string) {
+  const item = findItem(ctx.bot, name);
+  if (item) return item;
+  const arrived = waitForInventoryChange(ctx.bot, name, (count) => count > 0);
+  await giveItem(ctx.server, ctx.bot.username, name, 64);
+  await arrived;
+  return findItem(ctx.bot, name);
+}
+
+async function setBlockAndSync(ctx: BenchmarkContext, pos: Vec3, block: string, name = block): Promise<void> {
+  if (ctx.bot.blockAt(pos)?.name === name) return;
+  const changed = waitForBlockChange(ctx.bot, pos, (b) => b?.name === name);
+  await ctx.server.executeCommand(`setblock ${pos.x} ${pos.y} ${pos.z} ${block}`);
+  await changed;
+}
+
+async function waitForHeldItem(bot: Bot, name: string, timeout: number): Promise<void> {
+  if (bot.heldItem?.name === name) return;
+  await waitForEvent(bot, 'heldItemChanged', () => bot.heldItem?.name === name, { timeout });
+}
+
+// Benchmark area around the origin: crop to dig at +x, farmland to plant on at -x, chest at +z, walk targets at -z
+const cropPos = (ctx: BenchmarkContext) => ctx.origin.offset(2, 1, 0);
+const farmlandPos = (ctx: BenchmarkContext) => ctx.origin.offset(-2, 0, 0);
+const chestPos = (ctx: BenchmarkContext) => ctx.origin.offset(0, 1, 2);
+
+function areaCommands(origin: Vec3): string[] {
+  const { x, y, z } = origin;
+  return [
+    `fill ${x - 8} ${y} ${z - 8} ${x + 8} ${y} ${z + 8} grass_block`,
+    `fill ${x - 8} ${y + 1} ${z - 8} ${x + 8} ${y + 4} ${z + 8} air`,
+    `setblock ${x + 2} ${y} ${z} farmland`,
+    `setblock ${x - 2} ${y} ${z} farmland`,
+    `setblock ${x} ${y + 1} ${z + 2} chest`,
+  ];
+}
+
+const equipAction: BenchmarkAction<string> = {
+  name: 'equip',
+  async prepare(ctx) {
+    const name = ctx.iteration % 2 === 0 ? 'wheat_seeds' : 'dirt';
+    await ensureItem(ctx, name);
+    return name;
+  },
+  run: (ctx, name) => ctx.bot.equip(findItem(ctx.bot, name), 'hand'),
+  settle: (ctx, name, timeout) => waitForHeldItem(ctx.bot, name, timeout),
+};
+
+const digAction: BenchmarkAction = {
+  name: 'dig',
+  backends: ['bds'],
+  prepare: (ctx) => setBlockAndSync(ctx, cropPos(ctx), 'wheat ["growth"=7]', 'wheat'),
+  run: (ctx) => ctx.bot.dig(ctx.bot.blockAt(cropPos(ctx))),
+  settle: (ctx, _prepared, timeout) => waitForBlockChange(ctx.bot, cropPos(ctx), (b) => b?.name === 'air', { timeout }),
+};
+
+const placeBlockAction: BenchmarkAction = {
+  name: 'placeBlock',
+  backends: ['bds'],
+  async prepare(ctx) {
+    await setBlockAndSync(ctx, farmlandPos(ctx).offset(0, 1, 0), 'air');
+    await ctx.bot.equip(await ensureItem(ctx, 'wheat_seeds'), 'hand');
+  },
+  run: (ctx) => ctx.bot.placeBlock(ctx.bot.blockAt(farmlandPos(ctx)), new Vec3(0, 1, 0)),
+  settle: (ctx, _prepared, timeout) => waitForBlockChange(ctx.bot, farmlandPos(ctx).offset(0, 1, 0), (b) => b?.name === 'wheat', { timeout }),
+};
+
+type ChestWindow = { deposit(type: number, metadata: null, count: number): Promise<void> };
+
+const openBlockAction: BenchmarkAction = {
+  name: 'openBlock',
+  backends: ['bds'],
+  run: (ctx) => ctx.bot.openBlock(ctx.bot.blockAt(chestPos(ctx))),
+  cleanup: (ctx) => {
+    if (ctx.bot.currentWindow) ctx.bot.closeWindow(ctx.bot.currentWindow);
+  },
+};
+
+const depositAction: BenchmarkAction<ChestWindow> = {
+  name: 'deposit',
+  backends: ['bds'],
+  async prepare(ctx) {
+    await ensureItem(ctx, 'wheat');
+    return ctx.bot.openBlock(ctx.bot.blockAt(chestPos(ctx)));
+  },
+  run: (ctx, window) => window.deposit(ctx.bot.registry.itemsByName.wheat.id, null, 1),
+  cleanup: (ctx) => {
+    if (ctx.bot.currentWindow) ctx.bot.closeWindow(ctx.bot.currentWindow);
+  },
+};
+
+const gotoAction: BenchmarkAction<Vec3> = {
+  name: 'goto',
+  // Alternate between two spots 8 blocks apart
+  prepare: (ctx) => ctx.origin.offset(ctx.iteration % 2 === 0 ? -4 : 4, 1, -5),
+  run: (ctx, target) => ctx.bot.pathfinder.goto(new goals.GoalBlock(target.x, target.y, target.z)),
+  cleanup: (ctx) => ctx.bot.pathfinder.setGoal(null),
+};
+
+/**
+ * The actions the farmer states rely on. dig, placeBlock, openBlock and deposit need a real BDS,
+ * the stand-in doesn't implement block breaking, placing or containers.
+ */
+export const BENCHMARK_ACTIONS: BenchmarkAction<unknown>[] = [equipAction, digAction, placeBlockAction, openBlockAction, depositAction, gotoAction];
+
+function withTimeout<T>(promise: Promise<T>, timeout: number, step: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${step} did not finish within ${timeout}ms`)), timeout);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+function currentCommit(): string | null {
+  try {
+    return execFileSync('git', ['rev-parse', '--short', 'HEAD'], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return null;
+  }
+}
+
+interface MeasureOptions {
+  iterations: number;
+  warmup: number;
+  actionTimeout: number;
+  onSample?: ActionBenchmarkOptions['onSample'];
+}
+
+async function measureAction(ctx: BenchmarkContext, action: BenchmarkAction<unknown>, options: MeasureOptions): Promise<ActionStats> {
+  const { iterations, warmup, actionTimeout, onSample } = options;
+  const durations: number[] = [];
+  const settles: number[] = [];
+  const errors = new Set<string>();
+  let failures = 0;
+
+  for (let iteration = 0; iteration < warmup + iterations; iteration++) {
+    const measured = iteration >= warmup;
+    const sampleCtx = { ...ctx, iteration };
+    let prepared: unknown;
+    try {
+      prepared = await withTimeout(Promise.resolve(action.prepare?.(sampleCtx)), actionTimeout, `${action.name} prepare`);
+      const start = performance.now();
+      await withTimeout(action.run(sampleCtx, prepared), actionTimeout, action.name);
+      const duration = performance.now() - start;
+      if (action.settle) {
+        await withTimeout(action.settle(sampleCtx, prepared, actionTimeout), actionTimeout, `${action.name} settle`);
+        if (measured) settles.push(performance.now() - start - duration);
+      }
+      if (measured) {
+        durations.push(duration);
+        onSample?.(action.name, iteration - warmup, duration);
+      }
+    } catch (err) {
+      if (measured) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        failures++;
+        if (errors.size < 5) errors.add(error.message);
+        onSample?.(action.name, iteration - warmup, null, error);
+      }
+    } finally {
+      try {
+        await action.cleanup?.(sampleCtx, prepared);
+      } catch {
+        // A failed cleanup shows up as a failure of the next sample
+      }
+    }
+  }
+
+  return {
+    samples: iterations,
+    failures,
+    failureRate: Math.round((failures / iterations) * 1000) / 1000,
+    latency: latencyStats(durations),
+    settle: action.settle ? latencyStats(settles) : null,
+    errors: [...errors],
+  };
+}
+
+/**
+ * Start a server, build the benchmark area, connect one bot and time each action `iterations` times.
+ * Actions run one after another, the bot is teleported back to the origin before each of them.
+ */
+export async function runActionBenchmark(options: ActionBenchmarkOptions = {}): Promise<BenchmarkReport> {
+  const {
+    iterations = 20,
+    warmup = 2,
+    actionTimeout = 10000,
+    origin: originPosition = { x: 40, y: -1, z: 40 },
+    username = 'BenchBot',
+    plugins = [pathfinderPlugin],
+    onSample,
+    ...serverOptions
+  } = options;
+  const backend = (serverOptions.backend ?? process.env.SERVER_BACKEND ?? 'bds') as ServerBackend;
+  const origin = new Vec3(originPosition.x, originPosition.y, originPosition.z);
+
+  const selected = options.actions ? BENCHMARK_ACTIONS.filter((a) => options.actions?.includes(a.name)) : BENCHMARK_ACTIONS;
+  const unknown = options.actions?.filter((name) => !BENCHMARK_ACTIONS.some((a) => a.name === name)) ?? [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown benchmark actions: ${unknown.join(', ')} (known: ${BENCHMARK_ACTIONS.map((a) => a.name).join(', ')})`);
+  }
+
+  const report: BenchmarkReport = {
+    format: BENCHMARK_FORMAT,
+    createdAt: new Date().toISOString(),
+    commit: currentCommit(),
+    backend,
+    version: '',
+    iterations,
+    warmup,
+    actions: {},
+    skipped: {},
+  };
+
+  const server = await startServer({
+    ...serverOptions,
+    backend,
+    // Nothing but the bot changes the benchmark area
+    worldSettings: serverOptions.worldSettings ?? {
+      gameRules: { doDaylightCycle: false, doWeatherCycle: false, doMobSpawning: false, randomTickSpeed: 0 },
+      time: 'noon',
+      weather: 'clear',
+    },
+  });
+  report.version = server.version;
+
+  let bot: Bot | undefined;
+  try {
+    const serverSpawn = waitForServerPlayerSpawn(server, username);
+    bot = await connectBotToExternalServer(server, { username });
+    for (const plugin of plugins) {
+      bot.loadPlugin(plugin);
+    }
+    await Promise.all([waitForBotSpawn(bot), serverSpawn]);
+
+    const setup = createCommandBatch(areaCommands(origin)).add(`give ${username} wheat_seeds 64`, `give ${username} dirt 64`, `give ${username} wheat 64`);
+    assertBatchSucceeded(await setup.run(server), 'Benchmark area setup failed');
+
+    for (const action of selected) {
+      if (action.backends && !action.backends.includes(backend)) {
+        report.skipped[action.name] = `needs ${action.backends.join(' or ')}`;
+        continue;
+      }
+      await teleportPlayerAndSync(server, bot, origin.x + 0.5, origin.y + 1, origin.z + 0.5);
+      await bot.waitForChunksToLoad();
+      report.actions[action.name] = await measureAction({ server, bot, origin, iteration: 0 }, action, { iterations, warmup, actionTimeout, onSample });
+    }
+  } finally {
+    bot?.quit();
+    await server.stop();
+  }
+  return report;
+}
+
+// npm run benchmark -- [--iterations 20] [--actions dig,goto] [--backend stand-in] [--out reports/benchmark.json] [--compare reports/baseline.json]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { values } = parseArgs({
+    options: {
+      iterations: { type: 'string', short: 'n' },
+      warmup: { type: 'string' },
+      actions: { type: 'string' },
+      backend: { type: 'string' },
+      out: { type: 'string', default: 'reports/benchmark.json' },
+      compare: { type: 'string' },
+    },
+  });
+
+  const report = await runActionBenchmark({
+    iterations: parseInt(values.iterations ?? '20', 10),
+    warmup: parseInt(values.warmup ?? '2', 10),
+    actions: values.actions?.split(','),
+    backend: values.backend as ServerBackend | undefined,
+  });
+
+  console.log(formatBenchmarkReport(report));
+  fs.mkdirSync(path.dirname(values.out), { recursive: true });
+  fs.writeFileSync(values.out, JSON.stringify(report, null, 2) + '\n');
+  console.log(`\nReport: ${values.out}`);
+
+  if (values.compare) {
+    const comparison = compareBenchmarkReports(readBenchmarkReport(values.compare), report);
+    console.log(`\nCompared with ${values.compare}:\n${formatBenchmarkComparison(comparison)}`);
+    process.exit(comparison.regressions ? 1 : 0);
+  }
+  process.exit(0);
+}
@@ -0,0 +1,429 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+// @ts-ignore - minecraft-bedrock-server doesn't have types
+import * as bedrockServer from 'minecraft-bedrock-server';
+import { loadSettings } from './settings.ts';
+
+const isWindows = os.platform() === 'win32';
+const serverExecutable = isWindows ? 'bedrock_server.exe' : 'bedrock_server';
+
+const MANIFEST_FILE = '.bds-install.json';
+const VERSION_MARKER_FILE = '.bds-version';
+const DOWNLOAD_PREFIX = '.download-';
+const LOCK_PREFIX = '.lock-';
+// Files every server instance edits, copied instead of linked so the cache stays untouched
+const INSTANCE_FILES = new Set(['server.properties', 'permissions.json', 'allowlist.json']);
+// Directories whose files are edited the same way (config/default/permissions.json when scripting is enabled)
+const INSTANCE_COPY_DIRS = new Set(['config']);
+// Per-instance state that is never taken from the cache
+const INSTANCE_DIRS = new Set(['worlds', 'snapshots', 'logs']);
+
+// A download of ~100MB should never hold the lock this long
+const LOCK_STALE_AFTER = 15 * 60 * 1000;
+const LOCK_TIMEOUT = 20 * 60 * 1000;
+
+/** Written next to a cached version after extraction, used for integrity checks */
+export interface InstallManifest {
+  version: string;
+  installedAt: string;
+  lastUsedAt: string;
+  /** Size of every extracted file, keyed by path relative to the version directory */
+  files: Record<string, number>;
+  executableSha256: string;
+}
+
+export interface InstalledVersion {
+  version: string;
+  path: string;
+  /** Null when the manifest is missing, e.g. an interrupted install */
+  manifest: InstallManifest | null;
+}
+
+export interface AvailableVersion {
+  version: string;
+  channel: 'release' | 'preview';
+}
+
+export interface VerifyResult {
+  valid: boolean;
+  problems: string[];
+}
+
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+}
+
+export interface LockOptions {
+  /** Age after which a lock is taken over even if its owner looks alive (default: 15 minutes) */
+  staleAfter?: number;
+  /** Max time to wait for the lock (default: 20 minutes) */
+  timeout?: number;
+}
+
+export interface PruneOptions {
+  cachePath?: string;
+  /** Number of most recently used versions to keep (default: 2) */
+  keep?: number;
+  /** Versions that are never removed, the configured BDS_VERSION is always kept */
+  keepVersions?: string[];
+}
+
+export function getBdsCachePath(): string {
+  return loadSettings().BDS_CACHE_PATH;
+}
+
+/**
+ * Compare dotted version strings numerically, e.g. 1.21.130 > 1.21.99.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((p) => parseInt(p, 10) || 0);
+  const partsB = b.split('.').map((p) => parseInt(p, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function readLock(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A lock is stale when its owner died on this machine or it is older than staleAfter.
+ * Locks that can't be parsed (e.g. crashed mid-write) are judged by file age.
+ */
+export function isLockStale(lockPath: string, staleAfter = LOCK_STALE_AFTER): boolean {
+  const lock = readLock(lockPath);
+  let createdAt: number;
+  try {
+    createdAt = lock ? Date.parse(lock.createdAt) : fs.statSync(lockPath).mtimeMs;
+  } catch {
+    // Removed while we were looking
+    return false;
+  }
+  if (Date.now() - createdAt > staleAfter) return true;
+  return lock !== null && lock.hostname === os.hostname() && !isProcessAlive(lock.pid);
+}
+
+/**
+ * Take an exclusive lock file, waiting for other processes and taking over stale locks.
+ * Returns a function that releases the lock.
+ */
+export async function acquireLock(lockPath: string, options?: LockOptions): Promise<() => void> {
+  const { staleAfter = LOCK_STALE_AFTER, timeout = LOCK_TIMEOUT } = options ?? {};
+  const start = Date.now();
+  let waitingLogged = false;
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      const info: LockInfo = { pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(info));
+      fs.closeSync(fd);
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+
+    if (isLockStale(lockPath, staleAfter)) {
+      const owner = readLock(lockPath);
+      console.warn(`Removing stale lock ${lockPath}${owner ? ` (pid ${owner.pid} on ${owner.hostname})` : ''}`);
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() - start > timeout) {
+      throw new Error(`Timeout waiting for lock ${lockPath} after ${timeout}ms`);
+    }
+    if (!waitingLogged) {
+      const owner = readLock(lockPath);
+      console.log(`Waiting for lock ${lockPath}${owner ? ` held by pid ${owner.pid}` : ''}...`);
+      waitingLogged = true;
+    }
+    await new Promise((r) => setTimeout(r, 1000));
+  }
+}
+
+function hashFile(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function listFiles(root: string, relative = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(root, entryPath));
+    } else if (entry.name !== MANIFEST_FILE) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+export function readManifest(versionPath: string): InstallManifest | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(versionPath, MANIFEST_FILE), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function writeManifest(versionPath: string, manifest: InstallManifest): void {
+  fs.writeFileSync(path.join(versionPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+function createManifest(versionPath: string, version: string): InstallManifest {
+  const files: Record<string, number> = {};
+  for (const file of listFiles(versionPath)) {
+    files[file] = fs.statSync(path.join(versionPath, file)).size;
+  }
+  const now = new Date().toISOString();
+  return {
+    version,
+    installedAt: now,
+    lastUsedAt: now,
+    files,
+    executableSha256: hashFile(path.join(versionPath, serverExecutable)),
+  };
+}
+
+/**
+ * Check a cached version against the manifest written when it was extracted.
+ */
+export function verifyInstall(versionPath: string): VerifyResult {
+  const manifest = readManifest(versionPath);
+  if (!manifest) {
+    return { valid: false, problems: ['install manifest is missing'] };
+  }
+
+  const problems: string[] = [];
+  for (const [file, size] of Object.entries(manifest.files)) {
+    const filePath = path.join(versionPath, file);
+    if (!fs.existsSync(filePath)) {
+      problems.push(`${file} is missing`);
+    } else if (fs.statSync(filePath).size !== size) {
+      problems.push(`${file} has size ${fs.statSync(filePath).size}, expected ${size}`);
+    }
+  }
+
+  const executablePath = path.join(versionPath, serverExecutable);
+  if (fs.existsSync(executablePath) && hashFile(executablePath) !== manifest.executableSha256) {
+    problems.push(`${serverExecutable} checksum does not match`);
+  }
+
+  return { valid: problems.length === 0, problems };
+}
+
+/** Download entry of minecraft-bedrock-server's version list, keyed by platform and channel */
+interface PublishedVersion {
+  version3?: string;
+  version4?: string;
+}
+
+function parseVersionList(data: unknown): Record<string, PublishedVersion> {
+  const versions: Record<string, PublishedVersion> = {};
+  if (!data || typeof data !== 'object') return versions;
+  for (const [key, info] of Object.entries(data)) {
+    if (!info || typeof info !== 'object') continue;
+    const { version3, version4 } = info as Record<string, unknown>;
+    versions[key] = {
+      version3: typeof version3 === 'string' ? version3 : undefined,
+      version4: typeof version4 === 'string' ? version4 : undefined,
+    };
+  }
+  return versions;
+}
+
+/**
+ * Latest versions published for this platform.
+ */
+export async function listAvailableVersions(): Promise<AvailableVersion[]> {
+  const versions = await bedrockServer.getLatestVersions();
+  const platform = isWindows ? 'windows' : 'linux';
+  return Object.entries(parseVersionList(versions))
+    .filter(([key]) => key.toLowerCase().includes(platform))
+    .map(([key, info]) => ({
+      version: info.version4 || info.version3 || '',
+      channel: /preview/i.test(key) ? ('preview' as const) : ('release' as const),
+    }))
+    .filter((v) => v.version);
+}
+
+/**
+ * Versions in the cache, newest first.
+ */
+export function listInstalledVersions(cachePath = getBdsCachePath()): InstalledVersion[] {
+  if (!fs.existsSync(cachePath)) return [];
+  return fs
+    .readdirSync(cachePath, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => {
+      const versionPath = path.join(cachePath, entry.name);
+      return { version: entry.name, path: versionPath, manifest: readManifest(versionPath) };
+    })
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
+async function resolveVersion(version: string): Promise<string> {
+  if (version && version !== 'latest') return version;
+  const latest = (await listAvailableVersions()).find((v) => v.channel === 'release');
+  if (!latest) {
+    throw new Error('Failed to get latest BDS version');
+  }
+  return latest.version;
+}
+
+/**
+ * Make sure a version is downloaded and intact in the cache, returns its directory.
+ * Downloads go to a temporary directory and are renamed into place once the manifest is written,
+ * so a crashed download never looks like an install.
+ */
+export async function installVersion(version: string, cachePath = getBdsCachePath()): Promise<string> {
+  const resolved = await resolveVersion(version);
+  const versionPath = path.join(cachePath, resolved);
+
+  const release = await acquireLock(path.join(cachePath, `${LOCK_PREFIX}${resolved}`));
+  try {
+    if (fs.existsSync(versionPath)) {
+      const result = verifyInstall(versionPath);
+      if (result.valid) {
+        const manifest = readManifest(versionPath)!;
+        writeManifest(versionPath, { ...manifest, lastUsedAt: new Date().toISOString() });
+        return versionPath;
+      }
+      console.warn(`BDS ${resolved} in cache failed integrity check (${result.problems.slice(0, 3).join('; ')}), reinstalling`);
+      fs.rmSync(versionPath, { recursive: true, force: true });
+    }
+
+    const downloadName = `${DOWNLOAD_PREFIX}${resolved}-${process.pid}`;
+    const downloadPath = path.join(cachePath, downloadName);
+    fs.rmSync(downloadPath, { recursive: true, force: true });
+
+    console.log(`Downloading BDS ${resolved} to ${cachePath}...`);
+    try {
+      await bedrockServer.downloadServer(resolved, { root: cachePath, path: downloadName });
+      if (!fs.existsSync(path.join(downloadPath, serverExecutable))) {
+        throw new Error(`Download of BDS ${resolved} did not contain ${serverExecutable}`);
+      }
+      writeManifest(downloadPath, createManifest(downloadPath, resolved));
+      fs.renameSync(downloadPath, versionPath);
+    } catch (err) {
+      fs.rmSync(downloadPath, { recursive: true, force: true });
+      throw err;
+    }
+
+    console.log(`BDS ${resolved} cached at ${versionPath}`);
+    return versionPath;
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Version last linked into a server directory by linkInstall, or null for manual installs.
+ */
+export function readInstalledVersion(bdsPath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(bdsPath, VERSION_MARKER_FILE), 'utf8').trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Populate a server directory from a cached version.
+ * Server files are hard-linked (copied across devices), config files are copied once
+ * and worlds are left alone, so switching versions keeps the instance's state.
+ */
+export function linkInstall(sourcePath: string, destPath: string): void {
+  const link = (relative: string) => {
+    const source = path.join(sourcePath, relative);
+    const dest = path.join(destPath, relative);
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+
+    if (INSTANCE_FILES.has(relative) || INSTANCE_COPY_DIRS.has(relative.split('/')[0])) {
+      // Instances linked before the file was copied would still share the cache's inode
+      if (fs.existsSync(dest) && fs.statSync(dest).ino === fs.statSync(source).ino) fs.rmSync(dest);
+      if (!fs.existsSync(dest)) fs.copyFileSync(source, dest);
+      return;
+    }
+
+    fs.rmSync(dest, { force: true });
+    try {
+      fs.linkSync(source, dest);
+    } catch {
+      fs.copyFileSync(source, dest);
+    }
+  };
+
+  for (const file of listFiles(sourcePath)) {
+    if (INSTANCE_DIRS.has(file.split('/')[0]) || file === VERSION_MARKER_FILE) continue;
+    link(file);
+  }
+
+  const version = readManifest(sourcePath)?.version ?? readInstalledVersion(sourcePath);
+  if (version) {
+    fs.writeFileSync(path.join(destPath, VERSION_MARKER_FILE), version);
+  }
+}
+
+/**
+ * Remove least recently used versions, leftover downloads and stale locks from the cache.
+ * Versions locked by a live process are skipped. Returns the removed versions.
+ */
+export function pruneVersions(options?: PruneOptions): string[] {
+  const { cachePath = getBdsCachePath(), keep = 2, keepVersions = [] } = options ?? {};
+  if (!fs.existsSync(cachePath)) return [];
+
+  const protectedVersions = new Set([...keepVersions, loadSettings().BDS_VERSION]);
+  const isLocked = (version: string) => {
+    const lockPath = path.join(cachePath, `${LOCK_PREFIX}${version}`);
+    return fs.existsSync(lockPath) && !isLockStale(lockPath);
+  };
+
+  for (const entry of fs.readdirSync(cachePath)) {
+    const entryPath = path.join(cachePath, entry);
+    if (entry.startsWith(LOCK_PREFIX) && isLockStale(entryPath)) {
+      fs.rmSync(entryPath, { force: true });
+    } else if (entry.startsWith(DOWNLOAD_PREFIX)) {
+      const pid = parseInt(entry.slice(entry.lastIndexOf('-') + 1), 10);
+      if (!isProcessAlive(pid)) {
+        fs.rmSync(entryPath, { recursive: true, force: true });
+      }
+    }
+  }
+
+  const byLastUse = listInstalledVersions(cachePath).sort((a, b) =>
+    (b.manifest?.lastUsedAt ?? '').localeCompare(a.manifest?.lastUsedAt ?? '')
+  );
+
+  const removed: string[] = [];
+  for (const installed of byLastUse.slice(keep)) {
+    if (protectedVersions.has(installed.version) || isLocked(installed.version)) continue;
+    fs.rmSync(installed.path, { recursive: true, force: true });
+    removed.push(installed.version);
+  }
+  return removed;
+}
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type ActionStats, type BenchmarkReport, BENCHMARK_FORMAT, compareBenchmarkReports, formatBenchmarkComparison, latencyStats } from './benchmark-report.ts';
+
+function stats(p50: number | null, failureRate = 0): ActionStats {
+  const latency = p50 === null ? null : { min: p50, mean: p50, p50, p90: p50, p99: p50, max: p50 };
+  return { samples: 20, failures: Math.round(failureRate * 20), failureRate, latency, settle: null, errors: [] };
+}
+
+function report(actions: Record<string, ActionStats>): BenchmarkReport {
+  return { format: BENCHMARK_FORMAT, createdAt: '', commit: null, backend: 'bds', version: '1.21.0', iterations: 20, warmup: 2, actions, skipped: {} };
+}
+
+describe('latencyStats', () => {
+  it('returns null without samples', () => {
+    assert.equal(latencyStats([]), null);
+  });
+
+  it('uses nearest-rank percentiles of unsorted samples, rounded to 0.1ms', () => {
+    const durations = Array.from({ length: 100 }, (_, i) => 100 - i + 0.04);
+    assert.deepEqual(latencyStats(durations), { min: 1, mean: 50.5, p50: 50, p90: 90, p99: 99, max: 100 });
+  });
+
+  it('takes the only sample for every percentile', () => {
+    assert.deepEqual(latencyStats([12.34]), { min: 12.3, mean: 12.3, p50: 12.3, p90: 12.3, p99: 12.3, max: 12.3 });
+  });
+});
+
+describe('compareBenchmarkReports', () => {
+  it('flags actions whose p50 grew past the threshold', () => {
+    const comparison = compareBenchmarkReports(report({ dig: stats(100), goto: stats(100) }), report({ dig: stats(130), goto: stats(120) }));
+    assert.equal(comparison.regressions, true);
+    assert.deepEqual(
+      comparison.rows.map((r) => [r.action, r.change, r.regression]),
+      [
+        ['dig', 0.3, true],
+        ['goto', 0.2, false],
+      ]
+    );
+  });
+
+  it('ignores relative changes smaller than minDelta', () => {
+    const comparison = compareBenchmarkReports(report({ equip: stats(2) }), report({ equip: stats(4) }));
+    assert.equal(comparison.rows[0].change, 1);
+    assert.equal(comparison.regressions, false);
+  });
+
+  it('flags a higher failure rate', () => {
+    const comparison = compareBenchmarkReports(report({ dig: stats(100) }), report({ dig: stats(100, 0.1) }));
+    assert.equal(comparison.regressions, true);
+    assert.equal(compareBenchmarkReports(report({ dig: stats(100) }), report({ dig: stats(100, 0.1) }), { failureRateDelta: 0.2 }).regressions, false);
+  });
+
+  it('keeps actions only one report has, without a change', () => {
+    const comparison = compareBenchmarkReports(report({ dig: stats(100) }), report({ goto: stats(null, 1) }));
+    assert.deepEqual(
+      comparison.rows.map((r) => [r.action, r.baselineP50, r.currentP50, r.change, r.regression]),
+      [
+        ['dig', 100, null, null, false],
+        ['goto', null, null, null, true],
+      ]
+    );
+  });
+});
+
+describe('formatBenchmarkComparison', () => {
+  it('marks regressions', () => {
+    const comparison = compareBenchmarkReports(report({ dig: stats(100) }), report({ dig: stats(150) }));
+    assert.equal(formatBenchmarkComparison(comparison), ['  SLOWER dig          p50 100.0ms -> 150.0ms (+50%)', '', 'Regressions found'].join('\n'));
+  });
+});
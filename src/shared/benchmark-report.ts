@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import type { ServerBackend } from './external-server.ts';
+
+export const BENCHMARK_FORMAT = 1;
+
+export interface LatencyStats {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface ActionStats {
+  samples: number;
+  failures: number;
+  failureRate: number;
+  /** Latency of successful runs in ms, null when every run failed */
+  latency: LatencyStats | null;
+  /** Time from run resolving until the result showed on the bot, null without a settle step */
+  settle: LatencyStats | null;
+  /** Distinct failure messages, at most 5 */
+  errors: string[];
+}
+
+export interface BenchmarkReport {
+  format: number;
+  createdAt: string;
+  /** Short commit hash of the tree the benchmark ran from, null outside a git checkout */
+  commit: string | null;
+  backend: ServerBackend;
+  version: string;
+  iterations: number;
+  warmup: number;
+  actions: Record<string, ActionStats>;
+  /** Actions that were not run, with the reason */
+  skipped: Record<string, string>;
+}
+
+export interface BenchmarkComparisonRow {
+  action: string;
+  baselineP50: number | null;
+  currentP50: number | null;
+  /** Relative p50 change, 0.1 is 10% slower */
+  change: number | null;
+  baselineFailureRate: number;
+  currentFailureRate: number;
+  regression: boolean;
+}
+
+export interface BenchmarkComparison {
+  regressions: boolean;
+  rows: BenchmarkComparisonRow[];
+}
+
+export interface CompareBenchmarkOptions {
+  /** Relative p50 increase counted as a regression (default: 0.25) */
+  threshold?: number;
+  /** Smaller absolute p50 increases in ms are noise (default: 5) */
+  minDelta?: number;
+  /** Failure rate increase counted as a regression (default: 0.05) */
+  failureRateDelta?: number;
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+/** Nearest-rank percentile of ascending values */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+/**
+ * Min, mean, p50/p90/p99 and max in ms, null for no samples.
+ */
+export function latencyStats(durations: number[]): LatencyStats | null {
+  if (durations.length === 0) return null;
+  const sorted = [...durations].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, d) => sum + d, 0) / sorted.length;
+  return {
+    min: round(sorted[0]),
+    mean: round(mean),
+    p50: round(percentile(sorted, 50)),
+    p90: round(percentile(sorted, 90)),
+    p99: round(percentile(sorted, 99)),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+/**
+ * Compare two reports action by action. An action regresses when its p50 grew by more than
+ * `threshold` (and `minDelta` ms), or its failure rate by more than `failureRateDelta`.
+ */
+export function compareBenchmarkReports(baseline: BenchmarkReport, current: BenchmarkReport, options: CompareBenchmarkOptions = {}): BenchmarkComparison {
+  const { threshold = 0.25, minDelta = 5, failureRateDelta = 0.05 } = options;
+  const names = [...new Set([...Object.keys(baseline.actions), ...Object.keys(current.actions)])];
+
+  const rows = names.map((action): BenchmarkComparisonRow => {
+    const before = baseline.actions[action];
+    const after = current.actions[action];
+    const baselineP50 = before?.latency?.p50 ?? null;
+    const currentP50 = after?.latency?.p50 ?? null;
+    const change = baselineP50 !== null && currentP50 !== null && baselineP50 > 0 ? round(((currentP50 - baselineP50) / baselineP50) * 1000) / 1000 : null;
+    const baselineFailureRate = before?.failureRate ?? 0;
+    const currentFailureRate = after?.failureRate ?? 0;
+    const slower = change !== null && change > threshold && currentP50! - baselineP50! > minDelta;
+    const failing = currentFailureRate - baselineFailureRate > failureRateDelta;
+    return { action, baselineP50, currentP50, change, baselineFailureRate, currentFailureRate, regression: slower || failing };
+  });
+
+  return { regressions: rows.some((r) => r.regression), rows };
+}
+
+function formatMs(ms: number | null | undefined): string {
+  return ms === null || ms === undefined ? '-' : `${ms.toFixed(1)}ms`;
+}
+
+/**
+ * One line per action with failure rate and latency percentiles.
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const lines = [`Action latency, ${report.backend} ${report.version}, ${report.iterations} samples each${report.commit ? ` (${report.commit})` : ''}`];
+  for (const [name, stats] of Object.entries(report.actions)) {
+    const latency = stats.latency;
+    lines.push(
+      `  ${name.padEnd(12)} fail ${(stats.failureRate * 100).toFixed(0).padStart(3)}%  p50 ${formatMs(latency?.p50)}  p90 ${formatMs(latency?.p90)}  p99 ${formatMs(latency?.p99)}  max ${formatMs(latency?.max)}` +
+        (stats.settle ? `  settle p90 ${formatMs(stats.settle.p90)}` : '')
+    );
+    for (const error of stats.errors) {
+      lines.push(`    ${error}`);
+    }
+  }
+  for (const [name, reason] of Object.entries(report.skipped)) {
+    lines.push(`  ${name.padEnd(12)} skipped: ${reason}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One line per action with the p50 change, regressions marked.
+ */
+export function formatBenchmarkComparison(comparison: BenchmarkComparison): string {
+  const lines = comparison.rows.map((row) => {
+    const change = row.change === null ? '' : ` (${row.change >= 0 ? '+' : ''}${(row.change * 100).toFixed(0)}%)`;
+    const failures = row.currentFailureRate !== row.baselineFailureRate ? `, failures ${(row.baselineFailureRate * 100).toFixed(0)}% -> ${(row.currentFailureRate * 100).toFixed(0)}%` : '';
+    return `  ${row.regression ? 'SLOWER' : 'ok    '} ${row.action.padEnd(12)} p50 ${formatMs(row.baselineP50)} -> ${formatMs(row.currentP50)}${change}${failures}`;
+  });
+  return [...lines, '', comparison.regressions ? 'Regressions found' : 'No regressions'].join('\n');
+}
+
+export function readBenchmarkReport(filePath: string): BenchmarkReport {
+  const report = JSON.parse(fs.readFileSync(filePath, 'utf8')) as BenchmarkReport;
+  if (report.format !== BENCHMARK_FORMAT) {
+    throw new Error(`Unsupported benchmark report format ${report.format} in ${filePath}, expected ${BENCHMARK_FORMAT}`);
+  }
+  return report;
+}
@@ -0,0 +1,199 @@
+import type { Bot, BotOptions, Plugin } from 'mineflayer';
+import type { ExternalServer } from './external-server.ts';
+import type { ServerPlayerInfo } from './server-events.ts';
+import { connectBotToExternalServer, sleep, waitForServerPlayerSpawn } from './test-utils.ts';
+
+export interface BotGroupOptions {
+  count: number;
+  /** Bots are named <prefix><n>, starting at 1 (default: 'TestBot') */
+  usernamePrefix?: string;
+  /** Delay between two joins in ms, BDS drops logins that arrive at once (default: 500) */
+  stagger?: number;
+  /** Options for every bot, or per bot by index */
+  botOptions?: Partial<BotOptions> | ((index: number) => Partial<BotOptions>);
+  /** Mineflayer plugins loaded into every bot */
+  plugins?: Plugin[];
+  /** Time for each bot to spawn after it started joining, in ms (default: 30000) */
+  spawnTimeout?: number;
+  /** Also wait for the server to report each spawn (default: true) */
+  waitForServer?: boolean;
+  /** Return the bots that spawned instead of throwing when some failed (default: false) */
+  allowFailures?: boolean;
+}
+
+export interface BotJoinFailure {
+  index: number;
+  username: string;
+  reason: string;
+  /** True when the server kicked the bot, reason is then the kick message */
+  kicked: boolean;
+}
+
+export interface BotGroup {
+  /** Spawned bots, in join order */
+  readonly bots: Bot[];
+  /** Bots that did not spawn, only non-empty with allowFailures */
+  readonly failures: BotJoinFailure[];
+  get(username: string): Bot | undefined;
+  /** Disconnect every bot and wait until the server saw them leave */
+  disconnect(timeout?: number): Promise<void>;
+}
+
+/**
+ * Thrown by connectBotGroup when bots failed to spawn; the bots that did spawn are disconnected.
+ */
+export class BotGroupSpawnError extends Error {
+  readonly failures: BotJoinFailure[];
+
+  constructor(failures: BotJoinFailure[], count: number) {
+    super(
+      `${failures.length} of ${count} bots failed to spawn:\n` +
+        failures.map((f) => `  ${f.username}: ${f.kicked ? 'kicked: ' : ''}${f.reason}`).join('\n')
+    );
+    this.name = 'BotGroupSpawnError';
+    this.failures = failures;
+  }
+}
+
+function formatReason(reason: unknown): string {
+  if (typeof reason === 'string') return reason;
+  if (reason instanceof Error) return reason.message;
+  return JSON.stringify(reason);
+}
+
+/**
+ * Resolve when the bot spawned, reject with the kick reason, error or early disconnect otherwise.
+ */
+function waitForJoin(bot: Bot, timeout: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      bot.off('spawn', onSpawn);
+      bot.off('kicked', onKicked);
+      bot.off('error', onError);
+      bot.off('end', onEnd);
+    };
+    const fail = (reason: string, kicked: boolean) => {
+      cleanup();
+      reject(Object.assign(new Error(reason), { kicked }));
+    };
+    const onSpawn = () => {
+      cleanup();
+      resolve();
+    };
+    const onKicked = (reason: unknown) => fail(formatReason(reason), true);
+    const onError = (err: Error) => fail(err.message, false);
+    const onEnd = (reason: unknown) => fail(`disconnected before spawning (${formatReason(reason)})`, false);
+    const timer = setTimeout(() => fail(`did not spawn within ${timeout}ms`, false), timeout);
+
+    bot.once('spawn', onSpawn);
+    bot.once('kicked', onKicked);
+    bot.once('error', onError);
+    bot.once('end', onEnd);
+  });
+}
+
+function waitForDisconnect(server: ExternalServer, bot: Bot, timeout: number): Promise<void> {
+  return new Promise((resolve) => {
+    let pending = 2;
+    const done = () => {
+      if (--pending > 0) return;
+      clearTimeout(timer);
+      server.off('playerDisconnected', onServerLeave);
+      resolve();
+    };
+    const onServerLeave = (player: ServerPlayerInfo) => {
+      if (player.name === bot.username) done();
+    };
+    // A stuck disconnect shouldn't fail the test that is cleaning up
+    const timer = setTimeout(() => {
+      pending = 0;
+      server.off('playerDisconnected', onServerLeave);
+      resolve();
+    }, timeout);
+
+    server.on('playerDisconnected', onServerLeave);
+    bot.once('end', done);
+    bot.quit();
+  });
+}
+
+/**
+ * Connect `count` bots with unique usernames, one every `stagger` ms, and wait until all of them spawned.
+ * Failures are collected per bot (kick reason, error or timeout) and reported together.
+ */
+export async function connectBotGroup(server: ExternalServer, options: BotGroupOptions): Promise<BotGroup> {
+  const { count, usernamePrefix = 'TestBot', stagger = 500, plugins = [], spawnTimeout = 30000, waitForServer = true, allowFailures = false } = options;
+
+  const joins: Array<Promise<Bot>> = [];
+  for (let index = 0; index < count; index++) {
+    if (index > 0) await sleep(stagger);
+
+    const username = `${usernamePrefix}${index + 1}`;
+    const botOptions = typeof options.botOptions === 'function' ? options.botOptions(index) : options.botOptions;
+    const join = (async () => {
+      const serverSpawn = waitForServer ? waitForServerPlayerSpawn(server, username, spawnTimeout) : null;
+      // Keep an unhandled rejection from surfacing while the client side fails first
+      serverSpawn?.catch(() => {});
+      const bot = await connectBotToExternalServer(server, { ...botOptions, username });
+      for (const plugin of plugins) {
+        bot.loadPlugin(plugin);
+      }
+      try {
+        await waitForJoin(bot, spawnTimeout);
+        await serverSpawn;
+      } catch (err) {
+        bot.quit();
+        throw err;
+      }
+      return bot;
+    })();
+    // Failures are collected below, don't let one surface as unhandled while later bots are still joining
+    join.catch(() => {});
+    joins.push(join);
+  }
+
+  const settled = await Promise.allSettled(joins);
+  const bots: Bot[] = [];
+  const failures: BotJoinFailure[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      bots.push(result.value);
+    } else {
+      const err = result.reason as Error & { kicked?: boolean };
+      failures.push({ index, username: `${usernamePrefix}${index + 1}`, reason: err.message, kicked: err.kicked === true });
+    }
+  });
+
+  const group: BotGroup = {
+    bots,
+    failures,
+
+    get(username: string): Bot | undefined {
+      return bots.find((bot) => bot.username === username);
+    },
+
+    async disconnect(timeout = 5000): Promise<void> {
+      await Promise.all(bots.map((bot) => waitForDisconnect(server, bot, timeout)));
+      bots.length = 0;
+    },
+  };
+
+  if (failures.length > 0 && !allowFailures) {
+    await group.disconnect();
+    throw new BotGroupSpawnError(failures, count);
+  }
+  return group;
+}
+
+/**
+ * Run a function with a connected bot group and disconnect it afterwards.
+ */
+export async function withBotGroup<T>(server: ExternalServer, options: BotGroupOptions, fn: (group: BotGroup) => Promise<T>): Promise<T> {
+  const group = await connectBotGroup(server, options);
+  try {
+    return await fn(group);
+  } finally {
+    await group.disconnect();
+  }
+}
@@ -0,0 +1,201 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExternalServer } from './external-server.ts';
+import { CommandError, type CommandFailureKind, type CommandResult } from './command-result.ts';
+import { BEHAVIOR_PACKS_OUTPUT_PATH } from '../behavior-packs/build.ts';
+
+/** Default functioncommandlimit game rule, BDS stops a longer function early */
+export const MAX_FUNCTION_COMMANDS = 10000;
+
+const FUNCTION_NAME_PATTERN = /^[\w-]+(\/[\w-]+)*$/;
+
+export type BatchCommandStatus = 'ok' | 'failed' | 'skipped';
+
+export interface BatchCommandResult {
+  command: string;
+  status: BatchCommandStatus;
+  /** Parsed output, for failed commands too when they produced any */
+  result?: CommandResult;
+  error?: Error;
+  /** Times the command was sent, more than 1 when it got no output in time */
+  attempts: number;
+}
+
+export interface BatchResult {
+  /** True when no command failed */
+  ok: boolean;
+  results: BatchCommandResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  /** Wall time of the whole batch in ms */
+  duration: number;
+}
+
+export interface RunBatchOptions {
+  /** Skip the remaining commands after the first failure (default: false) */
+  stopOnError?: boolean;
+  /**
+   * Resends of a command that got no output in time. It may still have run, so only pass this
+   * for batches of idempotent commands like setblock and fill (default: 0)
+   */
+  retries?: number;
+  /** Per-command output timeout in ms (default: 5000) */
+  timeout?: number;
+  /** Failure kinds counted as success, e.g. 'no-targets' for optional cleanup (default: none) */
+  allowedFailures?: CommandFailureKind[];
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface CommandBatch {
+  readonly commands: readonly string[];
+  add(...commands: string[]): CommandBatch;
+  /**
+   * Send the commands in order, each after the previous one's output arrived,
+   * so a slow server is never flooded.
+   */
+  run(server: ExternalServer, options?: RunBatchOptions): Promise<BatchResult>;
+  /** The commands as .mcfunction source */
+  toMcfunction(): string;
+}
+
+export function createCommandBatch(commands: string[] = []): CommandBatch {
+  const queued = commands.map((command) => command.replace(/^\//, ''));
+
+  const batch: CommandBatch = {
+    commands: queued,
+
+    add(...more: string[]): CommandBatch {
+      queued.push(...more.map((command) => command.replace(/^\//, '')));
+      return batch;
+    },
+
+    async run(server: ExternalServer, options: RunBatchOptions = {}): Promise<BatchResult> {
+      const { stopOnError = false, retries = 0, timeout = 5000, allowedFailures = [], onProgress } = options;
+      const start = Date.now();
+      const results: BatchCommandResult[] = [];
+      let failed = false;
+
+      for (const command of queued) {
+        if (failed && stopOnError) {
+          results.push({ command, status: 'skipped', attempts: 0 });
+          continue;
+        }
+
+        let attempts = 0;
+        let entry: BatchCommandResult;
+        while (true) {
+          attempts++;
+          try {
+            entry = { command, status: 'ok', result: await server.executeCommand(command, timeout), attempts };
+            break;
+          } catch (err) {
+            if (err instanceof CommandError) {
+              if (err.kind === 'timeout' && attempts <= retries) continue;
+              const allowed = allowedFailures.includes(err.kind);
+              entry = { command, status: allowed ? 'ok' : 'failed', result: err.result, error: allowed ? undefined : err, attempts };
+            } else {
+              entry = { command, status: 'failed', error: err as Error, attempts };
+            }
+            break;
+          }
+        }
+
+        results.push(entry);
+        if (entry.status === 'failed') failed = true;
+        onProgress?.(results.length, queued.length);
+      }
+
+      const count = (status: BatchCommandStatus) => results.filter((r) => r.status === status).length;
+      return {
+        ok: !failed,
+        results,
+        succeeded: count('ok'),
+        failed: count('failed'),
+        skipped: count('skipped'),
+        duration: Date.now() - start,
+      };
+    },
+
+    toMcfunction(): string {
+      return queued.join('\n') + '\n';
+    },
+  };
+  return batch;
+}
+
+/**
+ * Throw when a batch had failures, with one line per failed command (first 20).
+ */
+export function assertBatchSucceeded(result: BatchResult, message?: string): void {
+  if (result.ok) return;
+  const failures = result.results.filter((r) => r.status === 'failed');
+  const shown = failures.slice(0, 20);
+  const details = [
+    `${message || 'Command batch failed'}: ${result.failed} of ${result.results.length} commands failed, ${result.skipped} skipped`,
+    ...shown.map((r) => `  ${r.command}: ${r.result?.message ?? r.error?.message}`),
+    failures.length > shown.length ? `  ... and ${failures.length - shown.length} more` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+  throw new Error(details);
+}
+
+// Same seed, same UUID, so rebuilding the pack doesn't change the world's pack list
+function seededUuid(seed: string): string {
+  const hex = crypto.createHash('sha1').update(seed).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Compile batches into a behavior pack of .mcfunction files at dist/behavior_packs/<name>.
+ * Keys are function names like "farmer/setup"; install the returned directory with
+ * ExternalServerOptions.behaviorPacks, then call runFunction.
+ */
+export function buildFunctionPack(name: string, functions: Record<string, CommandBatch | string[]>): string {
+  const outDir = path.join(BEHAVIOR_PACKS_OUTPUT_PATH, name);
+  const files: Array<[string, string]> = [];
+  for (const [functionName, commands] of Object.entries(functions)) {
+    if (!FUNCTION_NAME_PATTERN.test(functionName)) {
+      throw new Error(`Invalid function name: ${functionName}`);
+    }
+    const batch = Array.isArray(commands) ? createCommandBatch(commands) : commands;
+    if (batch.commands.length > MAX_FUNCTION_COMMANDS) {
+      throw new Error(`Function ${functionName} has ${batch.commands.length} commands, the limit is ${MAX_FUNCTION_COMMANDS}`);
+    }
+    files.push([`${functionName}.mcfunction`, batch.toMcfunction()]);
+  }
+
+  const manifest = {
+    format_version: 2,
+    header: {
+      name,
+      description: 'Functions generated from command batches',
+      uuid: seededUuid(`${name}:header`),
+      version: [1, 0, 0],
+      min_engine_version: [1, 21, 0],
+    },
+    modules: [{ type: 'data', uuid: seededUuid(`${name}:data`), version: [1, 0, 0] }],
+  };
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  for (const [file, source] of files) {
+    const filePath = path.join(outDir, 'functions', file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+  }
+  return outDir;
+}
+
+/**
+ * Run a function from an installed pack in one console command.
+ * Returns the number of function entries BDS executed; per-command results are not reported.
+ */
+export async function runFunction(server: ExternalServer, name: string, timeout = 30000): Promise<number> {
+  const result = await server.executeCommand(`function ${name}`, timeout);
+  return result.count ?? 0;
+}
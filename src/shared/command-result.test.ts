@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CommandError, createCommandExecutor, isCommandOutputLine, parseCommandOutput } from './command-result.ts';
+
+function markerReply(command: string): string {
+  return `Unknown command: ${command}. Please check that the command exists and that you have permission to use it.`;
+}
+
+describe('parseCommandOutput', () => {
+  it('reads counts from successful output', () => {
+    assert.deepEqual(parseCommandOutput('fill 0 0 0 1 1 1 stone', '8 blocks filled'), {
+      command: 'fill 0 0 0 1 1 1 stone',
+      success: true,
+      message: '8 blocks filled',
+      count: 8,
+    });
+    assert.equal(parseCommandOutput('give Bot wheat 3', 'Gave Wheat * 3 to Bot').count, 3);
+    assert.equal(parseCommandOutput('clear Bot', 'Cleared the inventory of Bot, removing 12 items').count, 12);
+  });
+
+  it('categorizes failures', () => {
+    assert.equal(parseCommandOutput('tp', 'Syntax error: Unexpected "": at "tp>><<"').failure, 'syntax');
+    assert.equal(parseCommandOutput('foo', 'Unknown command: foo. Please check...').failure, 'unknown-command');
+    assert.equal(parseCommandOutput('give Nobody dirt', 'No targets matched selector').failure, 'no-targets');
+    assert.equal(parseCommandOutput('setblock 0 400 0 stone', 'Cannot place block outside of the world').failure, 'out-of-world');
+    assert.equal(parseCommandOutput('fill ...', 'Too many blocks in the specified area (40000 > 32768)').failure, 'too-many-blocks');
+  });
+
+  it('reports an unchanged block as success without a count', () => {
+    assert.deepEqual(parseCommandOutput('setblock 0 0 0 stone', "The block couldn't be placed"), {
+      command: 'setblock 0 0 0 stone',
+      success: true,
+      message: "The block couldn't be placed",
+      count: 0,
+    });
+  });
+});
+
+describe('isCommandOutputLine', () => {
+  it('skips timestamped log lines', () => {
+    assert.equal(isCommandOutputLine('[2025-01-01 12:00:00:000 INFO] Player connected: Bot'), false);
+    assert.equal(isCommandOutputLine('NO LOG FILE! - [2025-01-01 12:00:00:000 INFO] Server started.'), false);
+    assert.equal(isCommandOutputLine('   '), false);
+    assert.equal(isCommandOutputLine('Set the time to 6000'), true);
+  });
+});
+
+describe('createCommandExecutor', () => {
+  function setup() {
+    const written: string[] = [];
+    const executor = createCommandExecutor((command) => written.push(command));
+    return { written, executor };
+  }
+
+  it('sends one command at a time, each followed by its end marker', async () => {
+    const { written, executor } = setup();
+    const first = executor.execute('time set 6000');
+    const second = executor.execute('weather clear');
+    assert.equal(written.length, 2);
+    assert.equal(written[0], 'time set 6000');
+
+    executor.handleLine('Set the time to 6000');
+    executor.handleLine(markerReply(written[1]));
+    assert.equal((await first).message, 'Set the time to 6000');
+
+    assert.equal(written[2], 'weather clear');
+    executor.handleLine('Changing to clear weather');
+    executor.handleLine(markerReply(written[3]));
+    assert.equal((await second).message, 'Changing to clear weather');
+  });
+
+  it('collects every line of multi-line output', async () => {
+    const { written, executor } = setup();
+    const result = executor.execute('list');
+    executor.handleLine('There are 2/10 players online:');
+    executor.handleLine('TestBot1, TestBot2');
+    executor.handleLine(markerReply(written[1]));
+    assert.deepEqual((await result).output, ['There are 2/10 players online:', 'TestBot1, TestBot2']);
+  });
+
+  it('ignores log lines while a command is in flight', async () => {
+    const { written, executor } = setup();
+    const result = executor.execute('time set 0');
+    executor.handleLine('[2025-01-01 12:00:00:000 INFO] Player connected: Bot');
+    executor.handleLine('Set the time to 0');
+    executor.handleLine(markerReply(written[1]));
+    const { message, output } = await result;
+    assert.equal(message, 'Set the time to 0');
+    assert.equal(output, undefined);
+  });
+
+  it('rejects failures with a CommandError', async () => {
+    const { written, executor } = setup();
+    const result = executor.execute('give Nobody dirt');
+    executor.handleLine('No targets matched selector');
+    executor.handleLine(markerReply(written[1]));
+    await assert.rejects(result, (err) => err instanceof CommandError && err.kind === 'no-targets');
+  });
+
+  it("keeps a timed-out command's late output out of the next result", async () => {
+    const { written, executor } = setup();
+    await assert.rejects(executor.execute('fill 0 0 0 9 9 9 stone', 10), (err) => err instanceof CommandError && err.kind === 'timeout');
+
+    const next = executor.execute('time set 6000');
+    assert.equal(written[2], 'time set 6000');
+    executor.handleLine('1000 blocks filled');
+    executor.handleLine(markerReply(written[1]));
+    executor.handleLine('Set the time to 6000');
+    executor.handleLine(markerReply(written[3]));
+    assert.equal((await next).message, 'Set the time to 6000');
+  });
+
+  it("sends without waiting, keeping the sent command's output out of the next result", async () => {
+    const { written, executor } = setup();
+    executor.send('say hello');
+    const next = executor.execute('time set 6000');
+    assert.deepEqual(written.slice(0, 3), ['say hello', written[1], 'time set 6000']);
+
+    executor.handleLine('[Server] hello');
+    executor.handleLine(markerReply(written[1]));
+    executor.handleLine('Set the time to 6000');
+    executor.handleLine(markerReply(written[3]));
+    assert.equal((await next).message, 'Set the time to 6000');
+  });
+
+  it('fails in-flight commands on reset and sends queued ones', async () => {
+    const { written, executor } = setup();
+    const first = executor.execute('time set 0');
+    const second = executor.execute('time set 6000');
+    executor.reset('Server restarted');
+    await assert.rejects(first, /Server restarted/);
+
+    assert.equal(written[2], 'time set 6000');
+    executor.handleLine('Set the time to 6000');
+    executor.handleLine(markerReply(written[3]));
+    assert.equal((await second).message, 'Set the time to 6000');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Parsing of console command output into typed results.
+ * Shared by the BDS and stand-in backends so both report the same result shape.
+ */
+
+export type CommandFailureKind = 'syntax' | 'unknown-command' | 'unknown-block' | 'no-targets' | 'out-of-world' | 'too-many-blocks' | 'failed' | 'timeout';
+
+export interface CommandResult {
+  /** Command as it was sent to the console */
+  command: string;
+  success: boolean;
+  /** First output line produced by the command */
+  message: string;
+  /** Every output line, for commands that print more than one (list, save query) */
+  output?: string[];
+  /** Number of affected blocks/items/entities when the message reports one */
+  count?: number;
+  /** Failure category, only set when success is false */
+  failure?: CommandFailureKind;
+}
+
+/**
+ * Thrown by executeCommand when the console reports that a command failed.
+ */
+export class CommandError extends Error {
+  readonly result: CommandResult;
+
+  constructor(result: CommandResult) {
+    super(`Command "${result.command}" failed (${result.failure}): ${result.message}`);
+    this.name = 'CommandError';
+    this.result = result;
+  }
+
+  get kind(): CommandFailureKind {
+    return this.result.failure ?? 'failed';
+  }
+}
+
+// BDS log lines start with a timestamp, command output is printed without one
+const LOG_LINE_PATTERN = /^(NO LOG FILE! - )?\[\d{4}-\d{2}-\d{2}[^\]]*\]/;
+
+const FAILURE_PATTERNS: Array<[RegExp, CommandFailureKind]> = [
+  [/^Syntax error:/i, 'syntax'],
+  [/^Unknown command:/i, 'unknown-command'],
+  [/^Unknown block type:|^Block name .* is not valid|^There is no such block/i, 'unknown-block'],
+  [/^No targets matched selector|^No player was found|^Could not clear the inventory/i, 'no-targets'],
+  [/outside of the world|not in the world/i, 'out-of-world'],
+  [/^Too many blocks in the specified area/i, 'too-many-blocks'],
+  [/^Could not place|^Unable to|^Failed to|^Cannot /i, 'failed'],
+  [/could not be found|was not found|can ?not overlap|^Invalid structure|^Function .* not found/i, 'failed'],
+];
+
+// The world already is in the requested state, reported as success with a count of 0
+const NO_CHANGE_PATTERN = /^The block couldn't be placed|^No blocks were filled/i;
+
+const COUNT_PATTERNS: RegExp[] = [
+  /^Successfully filled (\d+) blocks?/i,
+  /^(\d+) blocks? filled/i,
+  /^(\d+) blocks? cloned/i,
+  /removing (\d+) items?/i,
+  /^Gave .* \* (\d+) to/i,
+  /^Successfully executed (\d+) function entries/i,
+];
+
+/**
+ * Check whether a console line is command output rather than a server log line.
+ */
+export function isCommandOutputLine(line: string): boolean {
+  return line.trim().length > 0 && !LOG_LINE_PATTERN.test(line);
+}
+
+/**
+ * Build a typed result from the output line a command produced.
+ */
+export function parseCommandOutput(command: string, line: string): CommandResult {
+  const message = line.trim();
+
+  for (const [pattern, failure] of FAILURE_PATTERNS) {
+    if (pattern.test(message)) {
+      return { command, success: false, message, failure };
+    }
+  }
+
+  if (NO_CHANGE_PATTERN.test(message)) {
+    return { command, success: true, message, count: 0 };
+  }
+
+  const result: CommandResult = { command, success: true, message };
+  for (const pattern of COUNT_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) {
+      result.count = parseInt(match[1], 10);
+      break;
+    }
+  }
+  return result;
+}
+
+// Sent after every command: BDS answers "Unknown command: <marker>. ..." once the command's own output is done
+const END_MARKER_PREFIX = 'zz_output_end_';
+const END_MARKER_PATTERN = /^(?:NO LOG FILE! - )?Unknown command: (zz_output_end_\d+)/;
+
+interface InFlightCommand {
+  marker: string;
+  lines: string[];
+  /** Cleared when the caller gave up, the entry then only swallows the command's late output */
+  done: ((lines: string[], failure?: CommandFailureKind) => void) | null;
+}
+
+/**
+ * Serializes console commands so each one can be tied to the output it produced.
+ * The console has no request ids, so every command is followed by an unknown marker command:
+ * all output lines up to the marker's error belong to the command, however many there are or however late they arrive.
+ * A command that timed out keeps swallowing its output until its marker shows up, so it never leaks into the next result.
+ */
+export function createCommandExecutor(write: (command: string) => void) {
+  const queue: Array<() => void> = [];
+  const inFlight: InFlightCommand[] = [];
+  let nextMarker = 1;
+
+  function next(): void {
+    if (inFlight.some((entry) => entry.done !== null)) return;
+    queue.shift()?.();
+  }
+
+  return {
+    /** Feed a complete console line; completes the oldest in-flight command when its end marker arrives */
+    handleLine(line: string): void {
+      if (inFlight.length === 0 || !isCommandOutputLine(line)) return;
+
+      const end = line.trim().match(END_MARKER_PATTERN);
+      if (!end) {
+        inFlight[0].lines.push(line.trim());
+        return;
+      }
+
+      const index = inFlight.findIndex((entry) => entry.marker === end[1]);
+      if (index === -1) return;
+      // Markers are answered in order, older entries whose marker got lost end here too
+      for (const entry of inFlight.splice(0, index + 1)) {
+        entry.done?.(entry.lines);
+      }
+      next();
+    },
+
+    /** Fail the in-flight commands of a server process that exited; queued ones go to the next process */
+    reset(reason: string): void {
+      for (const entry of inFlight.splice(0)) {
+        entry.done?.([reason], 'failed');
+      }
+      next();
+    },
+
+    /**
+     * Write a command without waiting for its output. It still takes its turn in the queue and gets an end marker,
+     * so its output is swallowed instead of ending up in an executed command's result.
+     */
+    send(command: string): void {
+      queue.push(() => {
+        const entry: InFlightCommand = { marker: `${END_MARKER_PREFIX}${nextMarker++}`, lines: [], done: null };
+        inFlight.push(entry);
+        try {
+          write(command);
+          write(entry.marker);
+        } catch {
+          // Nobody waits for the command, the server is gone and the next launch resets the executor
+          inFlight.splice(inFlight.indexOf(entry), 1);
+        }
+        next();
+      });
+      next();
+    },
+
+    execute(command: string, timeout = 5000): Promise<CommandResult> {
+      return new Promise((resolve, reject) => {
+        queue.push(() => {
+          const entry: InFlightCommand = { marker: `${END_MARKER_PREFIX}${nextMarker++}`, lines: [], done: null };
+
+          const timer = setTimeout(() => {
+            entry.done = null;
+            const result: CommandResult = { command, success: false, message: `No output within ${timeout}ms`, failure: 'timeout' };
+            reject(new CommandError(result));
+            next();
+          }, timeout);
+
+          entry.done = (lines, failure) => {
+            clearTimeout(timer);
+            entry.done = null;
+            const result: CommandResult = failure ? { command, success: false, message: lines[0], failure } : parseCommandOutput(command, lines[0] ?? '');
+            if (lines.length > 1) result.output = lines;
+            if (result.success) {
+              resolve(result);
+            } else {
+              reject(new CommandError(result));
+            }
+          };
+          inFlight.push(entry);
+
+          try {
+            write(command);
+            write(entry.marker);
+          } catch (err) {
+            clearTimeout(timer);
+            inFlight.splice(inFlight.indexOf(entry), 1);
+            reject(err);
+            next();
+          }
+        });
+        next();
+      });
+    },
+  };
+}
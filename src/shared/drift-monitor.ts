@@ -0,0 +1,194 @@
+import type { Bot } from 'mineflayer';
+import type { ExternalServer } from './external-server.ts';
+import { getServerPlayerState } from './test-utils.ts';
+
+export interface DriftThresholds {
+  /** Max distance in blocks between client and server position (default: 1) */
+  position?: number;
+  /** Max health difference (default: 0) */
+  health?: number;
+}
+
+export interface DriftMonitorOptions {
+  /** Sampling interval in ms (default: 1000) */
+  interval?: number;
+  /** Player to query on the server (default: bot.username) */
+  playerName?: string;
+  thresholds?: DriftThresholds;
+  /** Called for every threshold violation, in addition to being recorded */
+  onViolation?: (violation: DriftViolation) => void;
+  /** Samples kept in memory, older ones are dropped from samples but still counted in stats (default: 1000) */
+  maxSamples?: number;
+}
+
+export interface DriftSample {
+  time: number;
+  clientPosition: { x: number; y: number; z: number };
+  serverPosition: { x: number; y: number; z: number };
+  /** Euclidean distance between both positions in blocks */
+  positionError: number;
+  clientHealth: number;
+  serverHealth: number;
+  clientGamemode: string;
+  serverGamemode: string;
+}
+
+export type DriftViolationKind = 'position' | 'health' | 'gamemode';
+
+export interface DriftViolation {
+  kind: DriftViolationKind;
+  message: string;
+  sample: DriftSample;
+}
+
+export interface DriftStats {
+  samples: number;
+  /** Samples where the server query failed, e.g. while the player was respawning */
+  failedSamples: number;
+  positionError: { mean: number; p95: number; max: number };
+  healthMismatches: number;
+  gamemodeMismatches: number;
+  violations: DriftViolation[];
+}
+
+export interface DriftMonitor {
+  /** Most recent samples, oldest first */
+  readonly samples: DriftSample[];
+  /** Take a sample now, outside the interval; null if the server query failed */
+  sample(): Promise<DriftSample | null>;
+  stats(): DriftStats;
+  /** Human-readable summary of stats() */
+  report(): string;
+  /** Stop sampling and return the final stats */
+  stop(): Promise<DriftStats>;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Periodically compare bot.entity with the authoritative server state (getServerPlayerState).
+ * Requires test_helper behavior pack.
+ */
+export function startDriftMonitor(bot: Bot, server: ExternalServer, options: DriftMonitorOptions = {}): DriftMonitor {
+  const { interval = 1000, playerName = bot.username, thresholds = {}, onViolation, maxSamples = 1000 } = options;
+  const positionThreshold = thresholds.position ?? 1;
+  const healthThreshold = thresholds.health ?? 0;
+
+  const samples: DriftSample[] = [];
+  // Kept for the whole run so stats don't depend on maxSamples
+  const positionErrors: number[] = [];
+  const violations: DriftViolation[] = [];
+  let failedSamples = 0;
+  let healthMismatches = 0;
+  let gamemodeMismatches = 0;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<DriftSample | null> | null = null;
+
+  function record(kind: DriftViolationKind, message: string, sample: DriftSample): void {
+    const violation = { kind, message, sample };
+    violations.push(violation);
+    onViolation?.(violation);
+  }
+
+  async function takeSample(): Promise<DriftSample | null> {
+    let state;
+    try {
+      state = await getServerPlayerState(server, playerName);
+    } catch {
+      failedSamples++;
+      return null;
+    }
+
+    // Read the client after the server answered, the closer in time the better
+    const position = bot.entity.position;
+    const sample: DriftSample = {
+      time: Date.now(),
+      clientPosition: { x: position.x, y: position.y, z: position.z },
+      serverPosition: state.position,
+      positionError: Math.hypot(position.x - state.position.x, position.y - state.position.y, position.z - state.position.z),
+      clientHealth: bot.health,
+      serverHealth: state.health,
+      clientGamemode: String(bot.game.gameMode).toLowerCase(),
+      serverGamemode: state.gamemode,
+    };
+
+    samples.push(sample);
+    if (samples.length > maxSamples) samples.shift();
+    positionErrors.push(sample.positionError);
+
+    if (sample.positionError > positionThreshold) {
+      record('position', `position off by ${sample.positionError.toFixed(3)} blocks (threshold ${positionThreshold})`, sample);
+    }
+    if (Math.abs(sample.clientHealth - sample.serverHealth) > healthThreshold) {
+      healthMismatches++;
+      record('health', `health client ${sample.clientHealth} vs server ${sample.serverHealth}`, sample);
+    }
+    if (sample.clientGamemode !== sample.serverGamemode) {
+      gamemodeMismatches++;
+      record('gamemode', `gamemode client ${sample.clientGamemode} vs server ${sample.serverGamemode}`, sample);
+    }
+    return sample;
+  }
+
+  function sample(): Promise<DriftSample | null> {
+    // Never run two queries at once, a slow server would otherwise pile them up
+    inFlight ??= takeSample().finally(() => (inFlight = null));
+    return inFlight;
+  }
+
+  function schedule(): void {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+      if (bot.entity) await sample();
+      schedule();
+    }, interval);
+  }
+
+  function stats(): DriftStats {
+    const sorted = [...positionErrors].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, e) => sum + e, 0);
+    return {
+      samples: positionErrors.length,
+      failedSamples,
+      positionError: {
+        mean: sorted.length ? total / sorted.length : 0,
+        p95: percentile(sorted, 95),
+        max: sorted[sorted.length - 1] ?? 0,
+      },
+      healthMismatches,
+      gamemodeMismatches,
+      violations: [...violations],
+    };
+  }
+
+  schedule();
+
+  return {
+    samples,
+    sample,
+    stats,
+
+    report(): string {
+      const s = stats();
+      const lines = [
+        `Drift of ${playerName}: ${s.samples} samples (${s.failedSamples} failed)`,
+        `  position error: mean ${s.positionError.mean.toFixed(3)}, p95 ${s.positionError.p95.toFixed(3)}, max ${s.positionError.max.toFixed(3)} blocks`,
+        `  health mismatches: ${s.healthMismatches}, gamemode mismatches: ${s.gamemodeMismatches}`,
+        `  violations: ${s.violations.length}`,
+        ...s.violations.slice(-10).map((v) => `    ${new Date(v.sample.time).toISOString()} ${v.kind}: ${v.message}`),
+      ];
+      return lines.join('\n');
+    },
+
+    async stop(): Promise<DriftStats> {
+      stopped = true;
+      clearTimeout(timer);
+      await inFlight;
+      return stats();
+    },
+  };
+}
@@ -1,118 +1,51 @@
-import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-// @ts-ignore - minecraft-bedrock-server doesn't have types
-import * as bedrockServer from 'minecraft-bedrock-server';
+import { EventEmitter } from 'events';
 import { loadSettings } from './settings.ts';
+import { type CommandResult, createCommandExecutor } from './command-result.ts';
+import { type ExternalServerEvents, createLineSplitter, emitServerLine } from './server-events.ts';
+import { replaceWorld, snapshotWorld } from './world-snapshot.ts';
+import { type ServerProperties, writeServerProperties } from './server-properties.ts';
+import { buildBehaviorPack } from '../behavior-packs/build.ts';
+import { installPacks } from './packs.ts';
+import { installVersion, linkInstall, readInstalledVersion } from './bds-versions.ts';
+import { forceKillPid, reapOrphanedServers, registerServerProcess } from './process-registry.ts';
+import { type ServerLog, createServerLog } from './server-log.ts';
+import { type SupervisorOptions, superviseServer } from './server-supervisor.ts';
+import { type WorldSettings, applyWorldSettings } from './world-rules.ts';
+import { type AccessControl, createAccessControl, provisionAllowlist } from './permissions.ts';
 
 const isWindows = os.platform() === 'win32';
 const serverExecutable = isWindows ? 'bedrock_server.exe' : 'bedrock_server';
 
 // Max buffer entries to prevent memory leak
 const MAX_OUTPUT_BUFFER_SIZE = 100;
+// Console lines kept for crash reports
+const CRASH_CONTEXT_LINES = 50;
 
 function forceKillProcess(proc: ChildProcess): void {
   if (!proc.pid) return;
-
-  try {
-    if (isWindows) {
-      // On Windows, use taskkill to kill the entire process tree
-      spawnSync('taskkill', ['/pid', proc.pid.toString(), '/f', '/t'], { stdio: 'ignore' });
-    } else {
-      // On Unix, just kill the process directly
-      // (it's in same process group as parent, so Ctrl+C handles group kill)
-      proc.kill('SIGKILL');
-    }
-  } catch {
-    // Process may already be dead
-  }
+  forceKillPid(proc.pid);
 }
 
 /**
- * Download BDS server if it doesn't exist.
- * Uses minecraft-bedrock-server npm package for downloading.
- * Worker 0 downloads; other workers copy from worker 0's installation.
+ * Install BDS into bdsPath if it's missing or was linked from a different version.
+ * Versions are downloaded once into the shared cache (see bds-versions.ts) and
+ * hard-linked into each server directory; manual installs without a version marker are left alone.
  */
 export async function ensureBDSInstalled(version: string, bdsPath: string): Promise<void> {
   const serverExePath = path.join(bdsPath, serverExecutable);
-  const defaultBdsPath = isWindows ? `c:/apps/bds-${version}` : `${os.homedir()}/apps/bds-${version}`;
-  const mainServerExe = path.join(defaultBdsPath, serverExecutable);
-  const lockFile = path.join(path.dirname(bdsPath), `.bds-download-${version}.lock`);
-  const workerId = getWorkerId();
+  const installedVersion = readInstalledVersion(bdsPath);
 
-  // Check if already installed
-  if (fs.existsSync(serverExePath)) {
+  if (fs.existsSync(serverExePath) && (installedVersion === null || version === 'latest' || installedVersion === version)) {
     return;
   }
 
-  // Workers 1+ copy from main installation
-  if (workerId > 0) {
-    // Wait for worker 0 to finish downloading if needed
-    const maxWait = 5 * 60 * 1000; // 5 minutes
-    const start = Date.now();
-    while (fs.existsSync(lockFile) && Date.now() - start < maxWait) {
-      console.log(`[Worker ${workerId}] Waiting for worker 0 to download BDS...`);
-      await new Promise((r) => setTimeout(r, 1000));
-    }
-
-    // Copy from main installation
-    if (fs.existsSync(mainServerExe)) {
-      console.log(`[Worker ${workerId}] Copying BDS from ${defaultBdsPath} to ${bdsPath}...`);
-      copyDirSync(defaultBdsPath, bdsPath);
-      console.log(`[Worker ${workerId}] BDS copied successfully`);
-      return;
-    }
-
-    throw new Error(`BDS not installed at ${defaultBdsPath}. Run worker 0 first with autoDownload: true`);
-  }
-
-  // Worker 0 downloads using minecraft-bedrock-server npm package
-  console.log(`[Worker ${workerId}] BDS not found at ${bdsPath}, downloading...`);
-
-  // Create lock file
-  fs.mkdirSync(path.dirname(bdsPath), { recursive: true });
-  fs.writeFileSync(lockFile, `downloading by worker ${workerId} at ${new Date().toISOString()}`);
-
-  try {
-    // Use minecraft-bedrock-server package to download
-    // Use requested version, or get latest if not specified
-    let downloadVersion = version;
-    if (!downloadVersion || downloadVersion === 'latest') {
-      const versions = await bedrockServer.getLatestVersions();
-      const platformVersions = isWindows ? versions.windows : versions.linux;
-      downloadVersion = platformVersions?.version4 || platformVersions?.version3;
-      if (!downloadVersion) {
-        throw new Error('Failed to get latest BDS version');
-      }
-    }
-    console.log(`Downloading BDS ${downloadVersion} to ${bdsPath}...`);
-
-    // The npm package creates a folder named bds-{version}, so we work around this
-    const parentDir = path.dirname(bdsPath);
-    const npmCreatedDir = path.normalize(path.join(parentDir, `bds-${downloadVersion}`));
-
-    // Use the npm package's options to control download location
-    await bedrockServer.downloadServer(downloadVersion, {
-      root: parentDir,
-      path: `bds-${downloadVersion}`
-    });
-
-    // Rename to the requested path if different
-    if (npmCreatedDir !== bdsPath && fs.existsSync(npmCreatedDir)) {
-      if (fs.existsSync(bdsPath)) {
-        fs.rmSync(bdsPath, { recursive: true });
-      }
-      fs.renameSync(npmCreatedDir, bdsPath);
-    }
-
-    console.log(`BDS ${downloadVersion} installed successfully at ${bdsPath}`);
-  } finally {
-    // Remove lock file
-    if (fs.existsSync(lockFile)) {
-      fs.unlinkSync(lockFile);
-    }
-  }
+  const cachedPath = await installVersion(version);
+  console.log(`Installing BDS ${path.basename(cachedPath)} at ${bdsPath}...`);
+  linkInstall(cachedPath, bdsPath);
 }
 
 /**
@@ -152,19 +85,57 @@ export interface ExternalServerOptions {
   autoDownload?: boolean;
   /** Path to template world to copy (optional) */
   templateWorldPath?: string;
-  /** Path to behavior pack to install (optional) */
-  behaviorPackPath?: string;
+  /** Path to behavior pack to install (default: bundled test_helper pack, false to skip) */
+  behaviorPackPath?: string | false;
+  /** Additional behavior packs, each installed under its directory name */
+  behaviorPacks?: string[];
+  /** Resource packs, each installed under its directory name */
+  resourcePacks?: string[];
   enableLanVisibility?: boolean;
+  /** Usernames that are made operators when they join */
+  operators?: string[];
+  /** Usernames allowed to join; enables the allowlist when set */
+  allowlist?: string[];
+  /** Extra server.properties values, validated and applied over the options above */
+  serverProperties?: Partial<ServerProperties>;
+  /** Directory for world snapshots (default: <bdsPath>/snapshots/<worldName>) */
+  snapshotsPath?: string;
+  /** Directory for per-run console log files, false for memory only (default: <bdsPath>/logs) */
+  logsPath?: string | false;
+  /** Game rules, time and weather applied after every start and restart */
+  worldSettings?: WorldSettings;
+  /** Restart the server with backoff when it crashes after startup (default: false) */
+  supervise?: boolean | SupervisorOptions;
+  /** Server implementation: real BDS or the in-process stand-in (default: 'bds') */
+  backend?: ServerBackend;
 }
 
-export interface ExternalServer {
+export type ServerBackend = 'bds' | 'stand-in';
+
+/**
+ * A running server. Emits typed events parsed from console output (see ExternalServerEvents).
+ */
+export interface ExternalServer extends EventEmitter<ExternalServerEvents>, AccessControl {
   host: string;
   port: number;
   version: string;
+  /** Full console log of this run, with marks for test boundaries */
+  log: ServerLog;
   /** Stop the server */
   stop(): Promise<void>;
-  /** Send a command to the server console (e.g., "give Player diamond 1") */
+  /** Stop and start the server again on the same port and world, running beforeStart in between */
+  restart(beforeStart?: () => void | Promise<void>): Promise<void>;
+  /** Copy a consistent snapshot of the running world to disk, returns the snapshot path */
+  snapshot(name: string): Promise<string>;
+  /** Restart the server onto a snapshot previously taken with snapshot() */
+  restore(name: string): Promise<void>;
+  /** Send a command to the server console without waiting for its output (e.g., "give Player diamond 1") */
   sendCommand(command: string): Promise<void>;
+  /**
+   * Send a command and wait for the console output it produced.
+   * Resolves with the parsed result, rejects with CommandError if the command failed.
+   */
+  executeCommand(command: string, timeout?: number): Promise<CommandResult>;
   /** Wait for a specific output pattern in server console */
   waitForOutput(pattern: RegExp, timeout?: number): Promise<string>;
 }
@@ -189,12 +160,8 @@ function getDefaultOptions(): ExternalServerOptions {
 
 function updateServerProperties(bdsPath: string, opts: Required<ExternalServerOptions>): void {
   const propsPath = path.join(bdsPath, 'server.properties');
-  if (!fs.existsSync(propsPath)) {
-    throw new Error(`server.properties not found at ${propsPath}. Is BDS installed correctly?`);
-  }
-  let content = fs.readFileSync(propsPath, 'utf8');
 
-  const updates: Record<string, string | number | boolean> = {
+  writeServerProperties(propsPath, {
     'server-port': opts.port,
     'level-name': opts.worldName,
     gamemode: opts.gamemode,
@@ -203,19 +170,10 @@ function updateServerProperties(bdsPath: string, opts: Required<ExternalServerOp
     'online-mode': false,
     'server-portv6': opts.port + 1,
     'enable-lan-visibility': opts.enableLanVisibility ?? opts.port === 19132,
-  };
-
-  for (const [key, value] of Object.entries(updates)) {
-    const regex = new RegExp(`^${key}=.*$`, 'm');
-    const newLine = `${key}=${value}`;
-    if (regex.test(content)) {
-      content = content.replace(regex, newLine);
-    } else {
-      content += `\n${newLine}`;
-    }
-  }
-
-  fs.writeFileSync(propsPath, content);
+    'allow-list': opts.allowlist !== undefined,
+    // Explicit properties win over the options above
+    ...opts.serverProperties,
+  });
 }
 
 /**
@@ -232,80 +190,6 @@ export function rmDirSync(dir: string): void {
   fs.rmSync(dir, { recursive: true, force: true });
 }
 
-/**
- * Setup behavior pack for test helper scripts.
- * Installs the test_helper behavior pack and configures permissions.
- */
-function setupBehaviorPack(bdsPath: string, worldName: string, behaviorPackPath: string): void {
-  const packUuid = 'a8d43bd0-cffd-4988-949a-5105e14bb5f2';
-  const packVersion = [1, 0, 0];
-
-  // Copy behavior pack to development_behavior_packs
-  const destPack = path.join(bdsPath, 'development_behavior_packs', 'test_helper');
-
-  // Create world directory if needed
-  const worldPath = path.join(bdsPath, 'worlds', worldName);
-  fs.mkdirSync(worldPath, { recursive: true });
-
-  if (fs.existsSync(behaviorPackPath)) {
-    // Remove existing to ensure clean state
-    rmDirSync(destPack);
-    copyDirSync(behaviorPackPath, destPack);
-  } else {
-    console.warn(`Warning: Behavior pack not found at ${behaviorPackPath}`);
-    return;
-  }
-
-  // Enable pack in world_behavior_packs.json
-  const packListPath = path.join(worldPath, 'world_behavior_packs.json');
-  const packEntry = { pack_id: packUuid, version: packVersion };
-
-  let packs: any[] = [];
-  if (fs.existsSync(packListPath)) {
-    try {
-      packs = JSON.parse(fs.readFileSync(packListPath, 'utf8'));
-    } catch {
-      packs = [];
-    }
-  }
-
-  // Add if not already present
-  if (!packs.some((p: any) => p.pack_id === packUuid)) {
-    packs.push(packEntry);
-  }
-  fs.writeFileSync(packListPath, JSON.stringify(packs, null, 2));
-
-  // Ensure permissions.json allows Script API
-  const configPath = path.join(bdsPath, 'config', 'default');
-  fs.mkdirSync(configPath, { recursive: true });
-  const permPath = path.join(configPath, 'permissions.json');
-  const permissions = {
-    allowed_modules: ['@minecraft/server', '@minecraft/server-gametest', '@minecraft/server-ui', '@minecraft/server-admin', '@minecraft/server-net'],
-  };
-  fs.writeFileSync(permPath, JSON.stringify(permissions, null, 2));
-
-  // Enable content logging in server.properties for script output
-  const propsPath = path.join(bdsPath, 'server.properties');
-  let propsContent = fs.readFileSync(propsPath, 'utf8');
-
-  const logUpdates: Record<string, string> = {
-    'content-log-console-output-enabled': 'true',
-    'content-log-level': 'verbose',
-  };
-
-  for (const [key, value] of Object.entries(logUpdates)) {
-    const regex = new RegExp(`^${key}=.*$`, 'm');
-    if (regex.test(propsContent)) {
-      propsContent = propsContent.replace(regex, `${key}=${value}`);
-    } else {
-      propsContent += `\n${key}=${value}`;
-    }
-  }
-
-  fs.writeFileSync(propsPath, propsContent);
-  console.log('Behavior pack setup complete');
-}
-
 export async function startExternalServer(options?: ExternalServerOptions): Promise<ExternalServer> {
   const opts = { ...getDefaultOptions(), ...options } as Required<ExternalServerOptions>;
   const workerId = getWorkerId();
@@ -343,12 +227,18 @@ export async function startExternalServer(options?: ExternalServerOptions): Prom
   // Update server.properties
   updateServerProperties(opts.bdsPath, opts);
 
-  // Setup behavior pack if provided
-  if (opts.behaviorPackPath) {
-    console.log('Installing behavior pack...');
-    setupBehaviorPack(opts.bdsPath, opts.worldName, opts.behaviorPackPath);
+  // Provision the allowlist before start, operators are opped when they join
+  if (opts.allowlist) {
+    provisionAllowlist(opts.bdsPath, opts.allowlist);
   }
 
+  // Install packs, the test_helper pack is built from src/behavior-packs unless one was provided
+  const behaviorPackPath = opts.behaviorPackPath ?? (await buildBehaviorPack('test-helper'));
+  installPacks(opts.bdsPath, opts.worldName, {
+    behavior: [...(behaviorPackPath ? [behaviorPackPath] : []), ...(opts.behaviorPacks ?? [])],
+    resource: opts.resourcePacks ?? [],
+  });
+
   // Track stdout for command responses
   const outputBuffer: string[] = [];
   const outputListeners: Array<{
@@ -357,108 +247,217 @@ export async function startExternalServer(options?: ExternalServerOptions): Prom
     reject: (err: Error) => void;
   }> = [];
 
-  // Spawn the server process
-  const handle: ChildProcess = spawn(serverExePath, [], {
-    cwd: opts.bdsPath,
-    stdio: ['pipe', 'pipe', 'pipe'],
-    // Keep child in same process group as parent so Ctrl+C (SIGINT) kills both
-    detached: false,
+  const events = new EventEmitter<ExternalServerEvents>();
+  const recentLines: string[] = [];
+  const log = createServerLog(events, {
+    logsPath: opts.logsPath === false ? null : (opts.logsPath ?? path.join(opts.bdsPath, 'logs')),
+    name: `bds-${opts.port}`,
   });
+  let handle: ChildProcess;
+  let stopping = false;
 
-  // Listen to stdout
-  handle.stdout?.on('data', (data: Buffer) => {
-    const text = data.toString();
-    process.stdout.write(text); // Echo to console for debugging
-
-    // Check for pattern matches first - if consumed by listener, don't add to buffer
-    let consumed = false;
-    for (let i = outputListeners.length - 1; i >= 0; i--) {
-      const listener = outputListeners[i];
-      if (listener.pattern.test(text)) {
-        outputListeners.splice(i, 1);
-        listener.resolve(text);
-        consumed = true;
-      }
-    }
-
-    // Only add to buffer if not consumed by a listener (with size limit)
-    if (!consumed) {
-      outputBuffer.push(text);
-      // Prevent memory leak by limiting buffer size
-      if (outputBuffer.length > MAX_OUTPUT_BUFFER_SIZE) {
-        outputBuffer.shift();
-      }
+  const commandExecutor = createCommandExecutor((command) => {
+    if (!handle.stdin) {
+      throw new Error('Server stdin not available');
     }
+    handle.stdin.write(command + '\n');
   });
 
-  handle.stderr?.on('data', (data: Buffer) => {
-    process.stderr.write(data.toString());
-  });
-
-  // Wait for server to be ready
-  await new Promise<void>((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error(`Server did not start within ${opts.timeout}ms`));
-    }, opts.timeout);
+  /**
+   * Spawn the server process and wait until it is ready.
+   * Called on start and again by restart() on the same port and world.
+   */
+  async function launch(): Promise<void> {
+    stopping = false;
+    // Output of commands sent to the previous process never arrives
+    commandExecutor.reset('Server restarted');
+
+    // A server left over from a crashed run would hold the port
+    await reapOrphanedServers(opts.bdsPath, opts.port);
+
+    // Spawn the server process
+    const child: ChildProcess = spawn(serverExePath, [], {
+      cwd: opts.bdsPath,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Keep child in same process group as parent so Ctrl+C (SIGINT) kills both
+      detached: false,
+    });
+    handle = child;
+    // Killed with this process on exit, signals and uncaught exceptions
+    registerServerProcess(child, { bdsPath: opts.bdsPath, port: opts.port });
+
+    // Reassemble lines split across chunks for command results and typed events
+    const splitLines = createLineSplitter((line) => {
+      recentLines.push(line);
+      if (recentLines.length > CRASH_CONTEXT_LINES) {
+        recentLines.shift();
+      }
+      commandExecutor.handleLine(line);
+      emitServerLine(events, line);
+    });
 
-    const checkReady = (data: Buffer) => {
+    // Listen to stdout
+    child.stdout?.on('data', (data: Buffer) => {
       const text = data.toString();
-      if (text.includes('Server started') || text.includes('IPv4 supported')) {
-        clearTimeout(timer);
-        handle.stdout?.off('data', checkReady);
-        setTimeout(() => resolve(), 500);
+      process.stdout.write(text); // Echo to console for debugging
+      splitLines(text);
+
+      // Check for pattern matches first - if consumed by listener, don't add to buffer
+      let consumed = false;
+      for (let i = outputListeners.length - 1; i >= 0; i--) {
+        const listener = outputListeners[i];
+        if (listener.pattern.test(text)) {
+          outputListeners.splice(i, 1);
+          listener.resolve(text);
+          consumed = true;
+        }
       }
-    };
 
-    handle.stdout?.on('data', checkReady);
+      // Only add to buffer if not consumed by a listener (with size limit)
+      if (!consumed) {
+        outputBuffer.push(text);
+        // Prevent memory leak by limiting buffer size
+        if (outputBuffer.length > MAX_OUTPUT_BUFFER_SIZE) {
+          outputBuffer.shift();
+        }
+      }
+    });
 
-    handle.on('error', (err) => {
-      clearTimeout(timer);
-      reject(err);
+    child.stderr?.on('data', (data: Buffer) => {
+      process.stderr.write(data.toString());
     });
 
-    handle.on('exit', (code) => {
-      if (code !== 0) {
+    // Wait for server to be ready
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Server did not start within ${opts.timeout}ms`));
+      }, opts.timeout);
+
+      const checkReady = (data: Buffer) => {
+        const text = data.toString();
+        if (text.includes('Server started') || text.includes('IPv4 supported')) {
+          clearTimeout(timer);
+          child.stdout?.off('data', checkReady);
+          setTimeout(() => resolve(), 500);
+        }
+      };
+
+      child.stdout?.on('data', checkReady);
+
+      child.on('error', (err) => {
         clearTimeout(timer);
-        reject(new Error(`Server exited with code ${code}`));
+        reject(err);
+      });
+
+      child.on('exit', (code) => {
+        if (code !== 0) {
+          clearTimeout(timer);
+          reject(new Error(`Server exited with code ${code}`));
+        }
+      });
+    });
+
+    // Anything other than a requested stop after startup is a crash; a replaced child's late exit is neither
+    child.on('exit', (code, signal) => {
+      if (child !== handle || stopping) return;
+      events.emit('crashed', { code, signal, lastLines: [...recentLines] });
+    });
+
+    if (opts.worldSettings) {
+      await applyWorldSettings({ executeCommand: (command) => commandExecutor.execute(command) }, opts.worldSettings);
+    }
+  }
+
+  function stopProcess(): Promise<void> {
+    stopping = true;
+    const child = handle;
+    return new Promise<void>((resolve) => {
+      // Check if already exited
+      if (child.exitCode !== null || child.signalCode !== null) {
+        resolve();
+        return;
       }
+
+      // Try graceful shutdown first
+      child.stdin?.write('stop\n');
+
+      // Force kill after timeout, still waiting for the exit so a restart never overlaps the old process
+      const killTimer = setTimeout(() => forceKillProcess(child), 5000);
+      const giveUpTimer = setTimeout(() => {
+        console.warn(`[BDS] Server process ${child.pid} did not exit after being killed`);
+        resolve();
+      }, 10000);
+
+      child.once('exit', () => {
+        clearTimeout(killTimer);
+        clearTimeout(giveUpTimer);
+        resolve();
+      });
     });
+  }
+
+  const accessControl = createAccessControl({
+    bdsPath: opts.bdsPath,
+    operators: opts.operators ?? [],
+    events,
+    run: (command) => commandExecutor.execute(command),
   });
 
-  const externalServer: ExternalServer = {
+  try {
+    await launch();
+  } catch (err) {
+    // Nobody gets a server to stop, close its log file here
+    log.close();
+    throw err;
+  }
+
+  const worldPath = path.join(opts.bdsPath, 'worlds', opts.worldName);
+  const snapshotsPath = opts.snapshotsPath ?? path.join(opts.bdsPath, 'snapshots', opts.worldName);
+
+  const externalServer: ExternalServer = Object.assign(events, {
     host: '127.0.0.1',
     port: opts.port,
     version: opts.version,
+    log,
 
     async stop(): Promise<void> {
-      return new Promise((resolve) => {
-        // Check if already exited
-        if (handle.exitCode !== null) {
-          resolve();
-          return;
-        }
+      supervisor?.stop();
+      await stopProcess();
+      log.close();
+    },
 
-        // Try graceful shutdown first
-        handle.stdin?.write('stop\n');
+    async restart(beforeStart?: () => void | Promise<void>): Promise<void> {
+      await stopProcess();
+      await beforeStart?.();
+      await launch();
+    },
 
-        const timer = setTimeout(() => {
-          // Force kill after timeout
-          forceKillProcess(handle);
-          resolve();
-        }, 5000);
+    async snapshot(name: string): Promise<string> {
+      const snapshotPath = path.join(snapshotsPath, name);
+      await snapshotWorld(externalServer, path.dirname(worldPath), snapshotPath);
+      return snapshotPath;
+    },
 
-        handle.once('exit', () => {
-          clearTimeout(timer);
-          resolve();
-        });
-      });
+    async restore(name: string): Promise<void> {
+      const snapshotPath = path.join(snapshotsPath, name);
+      if (!fs.existsSync(snapshotPath)) {
+        throw new Error(`Snapshot "${name}" not found at ${snapshotPath}`);
+      }
+      await externalServer.restart(() => replaceWorld(worldPath, snapshotPath));
     },
 
+    ...accessControl,
+
     async sendCommand(command: string): Promise<void> {
       if (!handle.stdin) {
         throw new Error('Server stdin not available');
       }
-      handle.stdin.write(command + '\n');
+      // Doesn't wait for output; queued with the executed commands so its output isn't taken for theirs
+      commandExecutor.send(command);
+    },
+
+    async executeCommand(command: string, timeout?: number): Promise<CommandResult> {
+      return commandExecutor.execute(command, timeout);
     },
 
     async waitForOutput(pattern: RegExp, timeout = 5000): Promise<string> {
@@ -492,7 +491,11 @@ export async function startExternalServer(options?: ExternalServerOptions): Prom
         });
       });
     },
-  };
+  });
+
+  const supervisor = opts.supervise
+    ? superviseServer(externalServer, { ...(opts.supervise === true ? {} : opts.supervise), bdsPath: opts.bdsPath })
+    : null;
 
   return externalServer;
 }
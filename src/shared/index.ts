@@ -1,3 +1,30 @@
 export * from './external-server.ts';
+export * from './stand-in-server.ts';
+export * from './command-result.ts';
+export * from './server-events.ts';
 export * from './test-utils.ts';
 export * from './settings.ts';
+export * from './lease-pool.ts';
+export * from './server-pool.ts';
+export * from './world-snapshot.ts';
+export * from './server-properties.ts';
+export * from './permissions.ts';
+export * from './bds-versions.ts';
+export * from './server-supervisor.ts';
+export * from './process-registry.ts';
+export * from './packs.ts';
+export * from './script-rpc.ts';
+export * from './drift-monitor.ts';
+export * from './server-log.ts';
+export * from './regions.ts';
+export * from './world-rules.ts';
+export * from './command-batch.ts';
+export * from './scenario.ts';
+export * from './scenario-runner.ts';
+export * from './bot-group.ts';
+export * from './waiters.ts';
+export * from './packet-diff.ts';
+export * from './packet-recorder.ts';
+export * from './packet-replay.ts';
+export * from './benchmark-report.ts';
+export * from './action-benchmark.ts';
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createLeasePool } from './lease-pool.ts';
+
+interface FakeServer {
+  id: number;
+  running: boolean;
+  stop(): Promise<void>;
+}
+
+function createFakeHandlers(failStarts = 0) {
+  const started: FakeServer[] = [];
+  let resets = 0;
+  let failures = failStarts;
+  const start = async (): Promise<FakeServer> => {
+    if (failures > 0) {
+      failures--;
+      throw new Error('start failed');
+    }
+    const server: FakeServer = {
+      id: started.length,
+      running: true,
+      async stop() {
+        server.running = false;
+      },
+    };
+    started.push(server);
+    return server;
+  };
+  return {
+    started,
+    get resets() {
+      return resets;
+    },
+    handlers: {
+      start,
+      async reset(_index: number, server: FakeServer | null) {
+        resets++;
+        if (!server) return start();
+        server.running = true;
+        return server;
+      },
+    },
+  };
+}
+
+describe('createLeasePool', () => {
+  it('hands a released slot to the oldest waiter after resetting it', async () => {
+    const fake = createFakeHandlers();
+    const pool = createLeasePool(1, fake.handlers);
+    const first = await pool.acquire(1000);
+    const waiting = pool.acquire(1000);
+
+    await first.release();
+    const second = await waiting;
+    assert.equal(second.index, 0);
+    assert.equal(second.server, first.server);
+    assert.equal(fake.resets, 1);
+    await pool.shutdown();
+  });
+
+  it('stops a server released after shutdown instead of restarting it', async () => {
+    const fake = createFakeHandlers();
+    const pool = createLeasePool(1, fake.handlers);
+    const lease = await pool.acquire(1000);
+    await pool.shutdown();
+
+    await lease.release();
+    assert.equal(fake.resets, 0);
+    assert.equal(lease.server.running, false);
+    await assert.rejects(pool.acquire(1000), /shut down/);
+  });
+
+  it('hands a slot whose start failed to a waiter, with a fresh start', async () => {
+    const fake = createFakeHandlers(1);
+    const pool = createLeasePool(1, fake.handlers);
+    const failing = pool.acquire(1000);
+    const waiting = pool.acquire(1000);
+
+    await assert.rejects(failing, /start failed/);
+    const lease = await waiting;
+    assert.equal(lease.server.running, true);
+    assert.equal(fake.started.length, 1);
+    await pool.shutdown();
+  });
+
+  it('rejects waiters on shutdown and when no slot becomes free in time', async () => {
+    const pool = createLeasePool(1, createFakeHandlers().handlers);
+    await pool.acquire(1000);
+    await assert.rejects(pool.acquire(10), /No pooled server became free within 10ms/);
+
+    const waiting = pool.acquire(1000);
+    await pool.shutdown();
+    await assert.rejects(waiting, /shut down/);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Lease bookkeeping of the server pool: which slots are leased, who waits for one, and what happens on release.
+ * Starting and resetting the servers is up to the caller, so this part runs without a server.
+ */
+
+export interface PoolLease<S> {
+  server: S;
+  /** Index of the pooled instance, stable for the lifetime of the pool */
+  index: number;
+  /** Return the server to the pool; its world is reset before the next lease */
+  release(): Promise<void>;
+}
+
+export interface LeasePoolHandlers<S> {
+  /** Start the server of a slot, again for the next lease when a start failed */
+  start(index: number): Promise<S>;
+  /** Make a released server ready for the next lease; `server` is null when the slot's last start failed */
+  reset(index: number, server: S | null): Promise<S>;
+}
+
+export interface LeasePool<S> {
+  /** Lease a ready server, waiting up to `timeout` ms for one to become free if all are in use */
+  acquire(timeout: number): Promise<PoolLease<S>>;
+  /** Reject waiting acquire() calls and stop every server; servers leased at that point stop once released */
+  shutdown(): Promise<void>;
+}
+
+interface LeaseSlot<S> {
+  index: number;
+  leased: boolean;
+  ready: Promise<S>;
+}
+
+export function createLeasePool<S extends { stop(): Promise<void> }>(size: number, handlers: LeasePoolHandlers<S>): LeasePool<S> {
+  const waiters: Array<{ resolve: (slot: LeaseSlot<S>) => void; reject: (err: Error) => void }> = [];
+  let closed = false;
+
+  function setReady(slot: LeaseSlot<S>, ready: Promise<S>): void {
+    slot.ready = ready;
+    // Failed starts are reported to whoever leases the slot
+    ready.catch(() => {});
+  }
+
+  const slots: Array<LeaseSlot<S>> = [];
+  for (let index = 0; index < size; index++) {
+    const slot = { index, leased: false } as LeaseSlot<S>;
+    setReady(slot, handlers.start(index));
+    slots.push(slot);
+  }
+
+  /** Hand a slot that became free to the oldest waiter, or mark it free */
+  function free(slot: LeaseSlot<S>): void {
+    const waiter = closed ? undefined : waiters.shift();
+    if (waiter) {
+      waiter.resolve(slot);
+    } else {
+      slot.leased = false;
+    }
+  }
+
+  function lease(slot: LeaseSlot<S>, server: S): PoolLease<S> {
+    let released = false;
+    return {
+      server,
+      index: slot.index,
+      async release(): Promise<void> {
+        if (released) return;
+        released = true;
+
+        if (closed) {
+          // Resetting would start the server again after shutdown() stopped it
+          slot.leased = false;
+          await server.stop();
+          return;
+        }
+        const previous = slot.ready;
+        setReady(slot, previous.then(
+          (ready) => handlers.reset(slot.index, ready),
+          () => handlers.reset(slot.index, null)
+        ));
+        free(slot);
+      },
+    };
+  }
+
+  return {
+    async acquire(timeout: number): Promise<PoolLease<S>> {
+      if (closed) {
+        throw new Error('Server pool has been shut down');
+      }
+
+      let slot = slots.find((s) => !s.leased);
+      if (slot) {
+        slot.leased = true;
+      } else {
+        slot = await new Promise<LeaseSlot<S>>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            reject(new Error(`No pooled server became free within ${timeout}ms`));
+          }, timeout);
+          const waiter = {
+            resolve: (freed: LeaseSlot<S>) => {
+              clearTimeout(timer);
+              resolve(freed);
+            },
+            reject: (err: Error) => {
+              clearTimeout(timer);
+              reject(err);
+            },
+          };
+          waiters.push(waiter);
+        });
+      }
+
+      try {
+        return lease(slot, await slot.ready);
+      } catch (err) {
+        // Retry the failed start for the next lease, which may be a waiter
+        if (!closed) setReady(slot, handlers.start(slot.index));
+        free(slot);
+        throw err;
+      }
+    },
+
+    async shutdown(): Promise<void> {
+      if (closed) return;
+      closed = true;
+      for (const waiter of waiters.splice(0)) {
+        waiter.reject(new Error('Server pool has been shut down'));
+      }
+      await Promise.all(slots.map(async (slot) => (await slot.ready.catch(() => null))?.stop()));
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffPackets, formatPacketDiff } from './packet-diff.ts';
+import type { PacketRecord } from './packet-recorder.ts';
+
+function serverbound(name: string, params: unknown, time = 0): PacketRecord {
+  return { time, direction: 'serverbound', name, params };
+}
+
+describe('diffPackets', () => {
+  it('matches packets name by name, ignoring interleaving and timing', () => {
+    const recorded = [serverbound('interact', { action: 'open' }, 10), serverbound('text', { message: 'hi' }, 20)];
+    const actual = [serverbound('text', { message: 'hi' }, 5), serverbound('interact', { action: 'open' }, 90)];
+    assert.deepEqual(diffPackets(recorded, actual), { matches: true, compared: 2, differences: [] });
+  });
+
+  it('reports the first differing field of a changed packet', () => {
+    const diff = diffPackets(
+      [serverbound('inventory_transaction', { transaction: { type: 'item_use', slot: 3 } })],
+      [serverbound('inventory_transaction', { transaction: { type: 'item_use', slot: 4 } })]
+    );
+    assert.deepEqual(diff.differences, [{ name: 'inventory_transaction', index: 0, kind: 'changed', field: 'transaction.slot', recorded: 3, actual: 4 }]);
+  });
+
+  it('reports missing and extra packets', () => {
+    const diff = diffPackets([serverbound('text', { message: 'a' }), serverbound('text', { message: 'b' })], [serverbound('text', { message: 'a' }), serverbound('emote', {})]);
+    assert.deepEqual(
+      diff.differences.map((d) => [d.name, d.index, d.kind]),
+      [
+        ['text', 1, 'missing'],
+        ['emote', 0, 'extra'],
+      ]
+    );
+  });
+
+  it('applies the tolerance, ignored fields and compares bigints and buffers by value', () => {
+    const recorded = [serverbound('move', { position: { x: 1.0001, y: 64 }, tick: 10n, data: Buffer.from([1, 2]) })];
+    const actual = [serverbound('move', { position: { x: 1, y: 64 }, tick: 10n, data: Buffer.from([1, 2]) })];
+    assert.equal(diffPackets(recorded, actual).matches, true);
+    assert.equal(diffPackets(recorded, actual, { tolerance: 0 }).differences[0].field, 'position.x');
+    assert.equal(diffPackets(recorded, [serverbound('move', { position: { x: 1, y: 64 }, tick: 11n, data: Buffer.from([1, 2]) })], { ignoreFields: ['tick'] }).matches, true);
+  });
+
+  it('skips noisy and login packets by default', () => {
+    const diff = diffPackets([serverbound('player_auth_input', { tick: 1 }), serverbound('login', {})], [serverbound('player_auth_input', { tick: 2 })]);
+    assert.equal(diff.matches, true);
+    assert.equal(diffPackets([serverbound('player_auth_input', { tick: 1 })], [], { ignorePackets: [] }).matches, false);
+  });
+
+  it('stops at maxDifferences', () => {
+    const recorded = Array.from({ length: 10 }, (_, i) => serverbound('text', { message: `${i}` }));
+    assert.equal(diffPackets(recorded, [], { maxDifferences: 3 }).differences.length, 3);
+  });
+});
+
+describe('formatPacketDiff', () => {
+  it('prints one line per difference', () => {
+    const diff = diffPackets([serverbound('text', { message: 'a', id: 1n })], [serverbound('text', { message: 'b', id: 1n }), serverbound('emote', {})]);
+    assert.equal(formatPacketDiff(diff), ['2 packet differences (1 compared)', '  text#0 message: recorded "a", got "b"', '  emote#0 extra'].join('\n'));
+  });
+});
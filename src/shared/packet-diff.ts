@@ -0,0 +1,142 @@
+import type { PacketRecord } from './packet-recorder.ts';
+
+/** Sent by bedrock-protocol itself while the bot logs in, never replayed or compared */
+export const LOGIN_PACKETS = new Set(['network_settings', 'server_to_client_handshake', 'request_network_settings', 'login', 'client_to_server_handshake']);
+
+/**
+ * Serverbound packets sent continuously or on timers; replay doesn't wait for them
+ * and diffs skip them unless asked.
+ */
+export const NOISY_SERVERBOUND_PACKETS = [
+  'player_auth_input',
+  'move_player',
+  'tick_sync',
+  'network_stack_latency',
+  'client_cache_blob_status',
+  'subchunk_request',
+  'set_local_player_as_initialized',
+];
+
+export interface PacketDifference {
+  name: string;
+  /** Position among the packets of this name */
+  index: number;
+  kind: 'missing' | 'extra' | 'changed';
+  /** Path of the first differing field, for changed packets */
+  field?: string;
+  recorded?: unknown;
+  actual?: unknown;
+}
+
+export interface PacketDiff {
+  matches: boolean;
+  /** Packets compared pairwise */
+  compared: number;
+  differences: PacketDifference[];
+}
+
+export interface DiffPacketsOptions {
+  /** Packet names left out of the comparison (default: NOISY_SERVERBOUND_PACKETS) */
+  ignorePackets?: string[];
+  /** Field names ignored at any depth, e.g. 'tick' */
+  ignoreFields?: string[];
+  /** Numbers closer than this are equal, for positions and rotations (default: 0.001) */
+  tolerance?: number;
+  /** Stop collecting after this many differences (default: 100) */
+  maxDifferences?: number;
+}
+
+function valueDiff(recorded: unknown, actual: unknown, path: string, ignore: Set<string>, tolerance: number): string | null {
+  if (typeof recorded === 'number' && typeof actual === 'number') {
+    return Math.abs(recorded - actual) <= tolerance ? null : path;
+  }
+  if (typeof recorded === 'bigint' || typeof actual === 'bigint') {
+    return String(recorded) === String(actual) ? null : path;
+  }
+  if (Buffer.isBuffer(recorded) && Buffer.isBuffer(actual)) {
+    return recorded.equals(actual) ? null : path;
+  }
+  if (recorded && actual && typeof recorded === 'object' && typeof actual === 'object') {
+    const keys = new Set([...Object.keys(recorded), ...Object.keys(actual)]);
+    for (const key of keys) {
+      if (ignore.has(key)) continue;
+      const diff = valueDiff((recorded as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], path ? `${path}.${key}` : key, ignore, tolerance);
+      if (diff !== null) return diff;
+    }
+    return null;
+  }
+  return recorded === actual ? null : path || '<root>';
+}
+
+function fieldValue(params: unknown, field: string): unknown {
+  if (field === '<root>') return params;
+  let value = params;
+  for (const key of field.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Compare two packet sequences name by name: the n-th packet of a name in `actual` against the n-th in `recorded`.
+ * Interleaving between different packet names is not compared, timing differs from run to run.
+ */
+export function diffPackets(recorded: PacketRecord[], actual: PacketRecord[], options: DiffPacketsOptions = {}): PacketDiff {
+  const { ignorePackets = NOISY_SERVERBOUND_PACKETS, ignoreFields = [], tolerance = 0.001, maxDifferences = 100 } = options;
+  const ignoredPackets = new Set([...ignorePackets, ...LOGIN_PACKETS]);
+  const ignore = new Set(ignoreFields);
+
+  const byName = (packets: PacketRecord[]) => {
+    const groups = new Map<string, PacketRecord[]>();
+    for (const packet of packets) {
+      if (ignoredPackets.has(packet.name)) continue;
+      groups.set(packet.name, [...(groups.get(packet.name) ?? []), packet]);
+    }
+    return groups;
+  };
+  const recordedByName = byName(recorded);
+  const actualByName = byName(actual);
+
+  let compared = 0;
+  const differences: PacketDifference[] = [];
+  for (const name of new Set([...recordedByName.keys(), ...actualByName.keys()])) {
+    const expected = recordedByName.get(name) ?? [];
+    const got = actualByName.get(name) ?? [];
+    for (let index = 0; index < Math.max(expected.length, got.length) && differences.length < maxDifferences; index++) {
+      if (index >= got.length) {
+        differences.push({ name, index, kind: 'missing', recorded: expected[index].params });
+      } else if (index >= expected.length) {
+        differences.push({ name, index, kind: 'extra', actual: got[index].params });
+      } else {
+        compared++;
+        const field = valueDiff(expected[index].params, got[index].params, '', ignore, tolerance);
+        if (field !== null) {
+          differences.push({
+            name,
+            index,
+            kind: 'changed',
+            field,
+            recorded: fieldValue(expected[index].params, field),
+            actual: fieldValue(got[index].params, field),
+          });
+        }
+      }
+    }
+  }
+
+  return { matches: differences.length === 0, compared, differences };
+}
+
+/**
+ * One line per difference, for assertion messages.
+ */
+export function formatPacketDiff(diff: PacketDiff, maxLines = 20): string {
+  const describe = (value: unknown) => JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? `${v}n` : v))?.slice(0, 120);
+  const lines = diff.differences.slice(0, maxLines).map((d) => {
+    if (d.kind === 'changed') return `  ${d.name}#${d.index} ${d.field}: recorded ${describe(d.recorded)}, got ${describe(d.actual)}`;
+    return `  ${d.name}#${d.index} ${d.kind}`;
+  });
+  const more = diff.differences.length > maxLines ? [`  ... and ${diff.differences.length - maxLines} more`] : [];
+  return [`${diff.differences.length} packet differences (${diff.compared} compared)`, ...lines, ...more].join('\n');
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { performance } from 'perf_hooks';
+import type { Bot } from 'mineflayer';
+import { onAnyPacket } from './protocol-events.ts';
+
+export const RECORDING_FORMAT = 1;
+
+export type PacketDirection = 'clientbound' | 'serverbound';
+
+export interface PacketRecord {
+  /** Milliseconds since the recording started */
+  time: number;
+  direction: PacketDirection;
+  name: string;
+  params: unknown;
+}
+
+export interface RecordingHeader {
+  format: number;
+  /** Bedrock version the bot connected with, e.g. "1.21.130" */
+  version: string;
+  username: string;
+  startedAt: string;
+}
+
+export interface Recording {
+  header: RecordingHeader;
+  packets: PacketRecord[];
+}
+
+export interface RecordPacketsOptions {
+  /** Packet names left out of the recording */
+  exclude?: string[];
+}
+
+export interface PacketRecorder {
+  readonly path: string;
+  /** Packets recorded so far */
+  readonly count: number;
+  /** Stop recording and flush the file */
+  stop(): Promise<void>;
+}
+
+/** The parts of mineflayer's bedrock client (`bot._client`) the recorder uses */
+interface RecordedClient {
+  options?: { version?: string };
+  username?: string;
+  write(name: string, params: unknown): void;
+  queue(name: string, params: unknown): void;
+}
+
+// Packets carry bigints (runtime ids, ticks) and Buffers (chunks), neither survives plain JSON
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (typeof raw === 'bigint') return { $bigint: raw.toString() };
+  if (Buffer.isBuffer(raw)) return { $buffer: raw.toString('base64') };
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    const { $bigint, $buffer } = value as { $bigint?: unknown; $buffer?: unknown };
+    if (typeof $bigint === 'string') return BigInt($bigint);
+    if (typeof $buffer === 'string') return Buffer.from($buffer, 'base64');
+  }
+  return value;
+}
+
+/**
+ * Record every packet the bot's client sends and receives to a gzipped JSON-lines file.
+ * Call it right after creating the bot so the login sequence is captured too.
+ */
+export function recordPackets(bot: Bot, filePath: string, options: RecordPacketsOptions = {}): PacketRecorder {
+  const exclude = new Set(options.exclude ?? []);
+  const client = (bot as unknown as { _client: RecordedClient })._client;
+  const start = performance.now();
+  let count = 0;
+  let stopped = false;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const gzip = zlib.createGzip();
+  const file = fs.createWriteStream(filePath);
+  gzip.pipe(file);
+
+  const header: RecordingHeader = {
+    format: RECORDING_FORMAT,
+    version: String(client.options?.version ?? bot.version ?? '').replace(/^bedrock_/, ''),
+    username: client.username ?? bot.username,
+    startedAt: new Date().toISOString(),
+  };
+  gzip.write(JSON.stringify(header) + '\n');
+
+  function record(direction: PacketDirection, name: string, params: unknown): void {
+    if (stopped || exclude.has(name)) return;
+    const entry: PacketRecord = { time: Math.round((performance.now() - start) * 10) / 10, direction, name, params };
+    gzip.write(JSON.stringify(entry, replacer) + '\n');
+    count++;
+  }
+
+  const offPacket = onAnyPacket(client, (des) => record('clientbound', des.data.name, des.data.params));
+
+  // The client has no event for outgoing packets, wrap both send paths
+  const originalWrite = client.write;
+  const originalQueue = client.queue;
+  client.write = function (this: RecordedClient, name: string, params: unknown) {
+    record('serverbound', name, params);
+    return originalWrite.call(this, name, params);
+  };
+  client.queue = function (this: RecordedClient, name: string, params: unknown) {
+    record('serverbound', name, params);
+    return originalQueue.call(this, name, params);
+  };
+
+  return {
+    path: filePath,
+
+    get count() {
+      return count;
+    },
+
+    async stop(): Promise<void> {
+      if (stopped) return;
+      stopped = true;
+      offPacket();
+      client.write = originalWrite;
+      client.queue = originalQueue;
+      await new Promise<void>((resolve, reject) => {
+        file.once('finish', resolve);
+        file.once('error', reject);
+        gzip.end();
+      });
+    },
+  };
+}
+
+/**
+ * Read a recording written by recordPackets.
+ */
+export function readRecording(filePath: string): Recording {
+  const lines = zlib.gunzipSync(fs.readFileSync(filePath)).toString('utf8').split('\n').filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error(`Empty recording: ${filePath}`);
+  }
+
+  const header = JSON.parse(lines[0]) as RecordingHeader;
+  if (header.format !== RECORDING_FORMAT) {
+    throw new Error(`Unsupported recording format ${header.format} in ${filePath}, expected ${RECORDING_FORMAT}`);
+  }
+  return { header, packets: lines.slice(1).map((line) => JSON.parse(line, reviver) as PacketRecord) };
+}
@@ -0,0 +1,200 @@
+import { Server, type Player, type Version } from 'bedrock-protocol';
+import { EventEmitter } from 'events';
+import { type DiffPacketsOptions, type PacketDiff, LOGIN_PACKETS, NOISY_SERVERBOUND_PACKETS, diffPackets } from './packet-diff.ts';
+import { type PacketRecord, type Recording, type RecordingHeader, readRecording } from './packet-recorder.ts';
+import { onAnyPacket, writePacket } from './protocol-events.ts';
+import { sleep } from './test-utils.ts';
+
+export interface ReplayServerOptions {
+  port?: number;
+  /** Playback speed: 1 keeps the recorded gaps, 2 halves them, 0 sends without delays (default: 1) */
+  speed?: number;
+  /** Serverbound packets that don't gate playback (default: NOISY_SERVERBOUND_PACKETS) */
+  unsyncedPackets?: string[];
+  /** Time to wait for the bot to send the packet the recording continues after, in ms (default: 5000) */
+  syncTimeout?: number;
+  /** Startup timeout in ms (default: 10000) */
+  timeout?: number;
+}
+
+export interface ReplayDesync {
+  /** Serverbound packet the recording expected next */
+  name: string;
+  /** Recorded time of the packet */
+  time: number;
+  message: string;
+}
+
+export interface ReplayServerEvents {
+  /** Every recorded clientbound packet was sent */
+  finished: [];
+  desync: [ReplayDesync];
+}
+
+export interface ReplayServer extends EventEmitter<ReplayServerEvents> {
+  host: string;
+  port: number;
+  header: RecordingHeader;
+  /** Serverbound packets the bot sent during the replay */
+  readonly received: PacketRecord[];
+  readonly desyncs: ReplayDesync[];
+  /** Resolves when playback finished */
+  waitForFinish(timeout?: number): Promise<void>;
+  /** Compare the bot's packets with the recorded serverbound packets */
+  diff(options?: DiffPacketsOptions): PacketDiff;
+  stop(): Promise<void>;
+}
+
+function isLoginSuccess(params: unknown): boolean {
+  return !!params && typeof params === 'object' && (params as { status?: unknown }).status === 'login_success';
+}
+
+/**
+ * Serve a recording to one bot: after login, recorded clientbound packets are sent in order with their
+ * recorded gaps, and playback waits wherever the original bot sent a packet until the new bot sends it too.
+ * Connect the bot with the recorded username and version (`replay.header`) for the same world state.
+ */
+export async function startReplayServer(recordingOrPath: Recording | string, options: ReplayServerOptions = {}): Promise<ReplayServer> {
+  const recording = typeof recordingOrPath === 'string' ? readRecording(recordingOrPath) : recordingOrPath;
+  const { port = 19150, speed = 1, syncTimeout = 5000, timeout = 10000 } = options;
+  const unsynced = new Set(options.unsyncedPackets ?? NOISY_SERVERBOUND_PACKETS);
+
+  // Playback starts after the login_success the server sends on its own
+  const loginEnd = recording.packets.findIndex((p) => p.name === 'play_status' && isLoginSuccess(p.params));
+  const playback = recording.packets.slice(loginEnd + 1).filter((p) => !LOGIN_PACKETS.has(p.name));
+  const recordedServerbound = recording.packets.filter((p) => p.direction === 'serverbound');
+
+  const events = new EventEmitter<ReplayServerEvents>();
+  const received: PacketRecord[] = [];
+  const desyncs: ReplayDesync[] = [];
+  const receivedCounts = new Map<string, number>();
+  const countWaiters: Array<() => void> = [];
+  let connected: Player | null = null;
+  let stopped = false;
+  let finished = false;
+  let start = 0;
+
+  function waitForCount(name: string, count: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        countWaiters.splice(countWaiters.indexOf(check), 1);
+        resolve(false);
+      }, syncTimeout);
+      const check = () => {
+        if (!stopped && (receivedCounts.get(name) ?? 0) < count) return;
+        clearTimeout(timer);
+        countWaiters.splice(countWaiters.indexOf(check), 1);
+        resolve(true);
+      };
+      countWaiters.push(check);
+      check();
+    });
+  }
+
+  async function play(client: Player): Promise<void> {
+    const expectedCounts = new Map<string, number>();
+    let last = playback[0]?.time ?? 0;
+
+    for (const record of playback) {
+      // A bot that reconnected gets a playback of its own
+      if (stopped || connected !== client) return;
+
+      if (record.direction === 'serverbound') {
+        if (unsynced.has(record.name)) continue;
+        const expected = (expectedCounts.get(record.name) ?? 0) + 1;
+        expectedCounts.set(record.name, expected);
+        if (!(await waitForCount(record.name, expected))) {
+          const desync = { name: record.name, time: record.time, message: `bot did not send ${record.name} #${expected} within ${syncTimeout}ms` };
+          desyncs.push(desync);
+          events.emit('desync', desync);
+        }
+        continue;
+      }
+
+      const delay = speed > 0 ? (record.time - last) / speed : 0;
+      last = record.time;
+      if (delay > 1) await sleep(delay);
+      writePacket(client, record.name, record.params);
+    }
+
+    finished = true;
+    events.emit('finished');
+  }
+
+  function handleClient(client: Player): void {
+    if (connected) {
+      client.disconnect('Replay server serves one bot at a time');
+      return;
+    }
+    connected = client;
+
+    client.on('join', () => {
+      start = Date.now();
+      void play(client);
+    });
+
+    client.on('close', () => {
+      if (connected === client) connected = null;
+    });
+
+    onAnyPacket(client, (des) => {
+      const { name, params } = des.data;
+      if (LOGIN_PACKETS.has(name)) return;
+      received.push({ time: Date.now() - start, direction: 'serverbound', name, params });
+      receivedCounts.set(name, (receivedCounts.get(name) ?? 0) + 1);
+      for (const check of [...countWaiters]) check();
+    });
+  }
+
+  const server = new Server({
+    host: '0.0.0.0',
+    port,
+    // bedrock-protocol's Version union lags behind BDS releases
+    version: recording.header.version as Version,
+    offline: true,
+    motd: { motd: 'Replay Server', levelName: 'replay' },
+  });
+  server.on('connect', handleClient);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    server.listen(),
+    new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Replay server did not start within ${timeout}ms`)), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+
+  return Object.assign(events, {
+    host: '127.0.0.1',
+    port,
+    header: recording.header,
+    received,
+    desyncs,
+
+    waitForFinish(waitTimeout = 60000): Promise<void> {
+      if (finished) return Promise.resolve();
+      return new Promise<void>((resolve, reject) => {
+        const finishTimer = setTimeout(() => {
+          events.off('finished', onFinished);
+          reject(new Error(`Replay did not finish within ${waitTimeout}ms (${desyncs.length} desyncs)`));
+        }, waitTimeout);
+        const onFinished = () => {
+          clearTimeout(finishTimer);
+          resolve();
+        };
+        events.once('finished', onFinished);
+      });
+    },
+
+    diff(diffOptions?: DiffPacketsOptions): PacketDiff {
+      return diffPackets(recordedServerbound, received, diffOptions);
+    },
+
+    async stop(): Promise<void> {
+      stopped = true;
+      for (const check of [...countWaiters]) check();
+      connected?.disconnect('Replay stopped');
+      await server.close();
+    },
+  });
+}
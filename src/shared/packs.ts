@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeServerProperties } from './server-properties.ts';
+
+export type PackType = 'behavior' | 'resource';
+export type PackVersion = [number, number, number];
+
+export interface PackDependency {
+  /** Another pack this one needs */
+  uuid?: string;
+  /** Script API module, e.g. @minecraft/server */
+  module_name?: string;
+  version: PackVersion | string;
+}
+
+export interface PackManifest {
+  format_version: number;
+  header: {
+    name: string;
+    uuid: string;
+    version: PackVersion;
+    description?: string;
+    min_engine_version?: PackVersion;
+  };
+  modules: Array<{ type: string; uuid: string; version: PackVersion; entry?: string }>;
+  dependencies?: PackDependency[];
+}
+
+/** Entry of world_behavior_packs.json / world_resource_packs.json */
+export interface WorldPackEntry {
+  pack_id: string;
+  version: PackVersion;
+}
+
+export interface InstalledPack {
+  type: PackType;
+  /** Directory name under development_<type>_packs */
+  name: string;
+  path: string;
+  manifest: PackManifest;
+}
+
+const PACK_DIRS: Record<PackType, { development: string; vanilla: string; worldList: string }> = {
+  behavior: { development: 'development_behavior_packs', vanilla: 'behavior_packs', worldList: 'world_behavior_packs.json' },
+  resource: { development: 'development_resource_packs', vanilla: 'resource_packs', worldList: 'world_resource_packs.json' },
+};
+
+const SCRIPT_MODULES = ['@minecraft/server', '@minecraft/server-gametest', '@minecraft/server-ui', '@minecraft/server-admin', '@minecraft/server-net'];
+
+/**
+ * Read and sanity-check a pack's manifest.json.
+ */
+export function readPackManifest(packPath: string): PackManifest {
+  const manifestPath = path.join(packPath, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Pack manifest not found at ${manifestPath}`);
+  }
+
+  let manifest: PackManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Invalid pack manifest ${manifestPath}: ${(err as Error).message}`);
+  }
+
+  const header = manifest?.header;
+  if (!header?.uuid || !Array.isArray(header.version) || header.version.length !== 3) {
+    throw new Error(`Pack manifest ${manifestPath} needs header.uuid and a [major, minor, patch] header.version`);
+  }
+  return manifest;
+}
+
+/**
+ * Pack UUIDs found in a packs directory, mapped to their directory.
+ */
+function scanPacks(packsPath: string): Map<string, string> {
+  const packs = new Map<string, string>();
+  if (!fs.existsSync(packsPath)) return packs;
+  for (const entry of fs.readdirSync(packsPath, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    try {
+      packs.set(readPackManifest(path.join(packsPath, entry.name)).header.uuid, path.join(packsPath, entry.name));
+    } catch {
+      // Not a pack
+    }
+  }
+  return packs;
+}
+
+function readWorldPacks(listPath: string): WorldPackEntry[] {
+  if (!fs.existsSync(listPath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(listPath, 'utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Allow the Script API modules and route script output to the console, needed by packs with scripts.
+ */
+function enableScripting(bdsPath: string): void {
+  const configPath = path.join(bdsPath, 'config', 'default');
+  fs.mkdirSync(configPath, { recursive: true });
+  fs.writeFileSync(path.join(configPath, 'permissions.json'), JSON.stringify({ allowed_modules: SCRIPT_MODULES }, null, 2));
+
+  writeServerProperties(path.join(bdsPath, 'server.properties'), {
+    'content-log-console-output-enabled': true,
+    'content-log-level': 'verbose',
+  });
+}
+
+/**
+ * Install packs into development_<type>_packs under their directory names and enable them in the world.
+ *
+ * The world pack lists are rebuilt from the requested packs: development packs from earlier runs
+ * that were not requested again are dropped, entries from the world template are kept.
+ * Pack-to-pack dependencies must be satisfied by the requested packs, the world or BDS's vanilla packs.
+ */
+export function installPacks(bdsPath: string, worldName: string, packs: { behavior?: string[]; resource?: string[] }): InstalledPack[] {
+  const worldPath = path.join(bdsPath, 'worlds', worldName);
+  fs.mkdirSync(worldPath, { recursive: true });
+
+  const installed: InstalledPack[] = [];
+  for (const type of ['behavior', 'resource'] as const) {
+    for (const packPath of packs[type] ?? []) {
+      installed.push({ type, name: path.basename(path.resolve(packPath)), path: packPath, manifest: readPackManifest(packPath) });
+    }
+  }
+
+  const names = new Set<string>();
+  for (const pack of installed) {
+    const key = `${pack.type}:${pack.name}`;
+    if (names.has(key)) {
+      throw new Error(`Two ${pack.type} packs are named "${pack.name}", rename one of the directories`);
+    }
+    names.add(key);
+  }
+
+  const available = new Set(installed.map((p) => p.manifest.header.uuid));
+  const lists = {} as Record<PackType, WorldPackEntry[]>;
+
+  for (const type of ['behavior', 'resource'] as const) {
+    const dirs = PACK_DIRS[type];
+    const developmentPath = path.join(bdsPath, dirs.development);
+    const managed = scanPacks(developmentPath);
+
+    const requested = installed.filter((p) => p.type === type);
+    const kept = readWorldPacks(path.join(worldPath, dirs.worldList)).filter(
+      (entry) => !managed.has(entry.pack_id) && !requested.some((p) => p.manifest.header.uuid === entry.pack_id)
+    );
+    lists[type] = [...kept, ...requested.map((p) => ({ pack_id: p.manifest.header.uuid, version: p.manifest.header.version }))];
+
+    for (const entry of kept) available.add(entry.pack_id);
+    for (const uuid of scanPacks(path.join(bdsPath, dirs.vanilla)).keys()) available.add(uuid);
+  }
+
+  for (const pack of installed) {
+    const missing = (pack.manifest.dependencies ?? []).filter((dep) => dep.uuid && !available.has(dep.uuid));
+    if (missing.length > 0) {
+      throw new Error(`Pack "${pack.manifest.header.name}" depends on missing pack(s): ${missing.map((dep) => dep.uuid).join(', ')}`);
+    }
+  }
+
+  for (const pack of installed) {
+    const dest = path.join(bdsPath, PACK_DIRS[pack.type].development, pack.name);
+    // Remove existing to ensure clean state
+    fs.rmSync(dest, { recursive: true, force: true });
+    fs.cpSync(pack.path, dest, { recursive: true });
+    console.log(`Installed ${pack.type} pack ${pack.manifest.header.name} ${pack.manifest.header.version.join('.')} as ${pack.name}`);
+  }
+
+  for (const type of ['behavior', 'resource'] as const) {
+    fs.writeFileSync(path.join(worldPath, PACK_DIRS[type].worldList), JSON.stringify(lists[type], null, 2));
+  }
+
+  if (installed.some((p) => p.manifest.modules?.some((m) => m.type === 'script'))) {
+    enableScripting(bdsPath);
+  }
+
+  return installed;
+}
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EventEmitter } from 'events';
+import { CommandError, type CommandResult } from './command-result.ts';
+import type { ExternalServerEvents } from './server-events.ts';
+
+export type PermissionLevel = 'visitor' | 'member' | 'operator';
+
+/** Entry of BDS permissions.json, which is keyed by xuid */
+export interface PermissionsEntry {
+  permission: PermissionLevel;
+  xuid: string;
+}
+
+/** Entry of BDS allowlist.json */
+export interface AllowlistEntry {
+  name: string;
+  xuid?: string;
+  ignoresPlayerLimit: boolean;
+}
+
+export interface AccessControl {
+  /** Grant operator to a player and record it in permissions.json; offline players are opped when they spawn */
+  op(player: string): Promise<void>;
+  /** Revoke operator from a player and remove it from permissions.json */
+  deop(player: string): Promise<void>;
+  /** Add a player to the allowlist and allowlist.json */
+  allowlistAdd(player: string): Promise<void>;
+  /** Remove a player from the allowlist and allowlist.json */
+  allowlistRemove(player: string): Promise<void>;
+  /** Resolves once an operator has been opped after spawning, so it can send commands (default timeout: 10000ms) */
+  waitForOperator(player: string, timeout?: number): Promise<void>;
+}
+
+function readJsonArray<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function readPermissions(bdsPath: string): PermissionsEntry[] {
+  return readJsonArray<PermissionsEntry>(path.join(bdsPath, 'permissions.json'));
+}
+
+export function writePermissions(bdsPath: string, entries: PermissionsEntry[]): void {
+  fs.writeFileSync(path.join(bdsPath, 'permissions.json'), JSON.stringify(entries, null, 2));
+}
+
+export function readAllowlist(bdsPath: string): AllowlistEntry[] {
+  return readJsonArray<AllowlistEntry>(path.join(bdsPath, 'allowlist.json'));
+}
+
+export function writeAllowlist(bdsPath: string, entries: AllowlistEntry[]): void {
+  fs.writeFileSync(path.join(bdsPath, 'allowlist.json'), JSON.stringify(entries, null, 2));
+}
+
+/**
+ * Write allowlist.json before the server starts.
+ * Names are enough for BDS, it fills in the xuid when the player first joins.
+ */
+export function provisionAllowlist(bdsPath: string, players: string[]): void {
+  const existing = readAllowlist(bdsPath);
+  const entries = players.map((name) => existing.find((e) => e.name === name) ?? { name, ignoresPlayerLimit: false });
+  writeAllowlist(bdsPath, entries);
+}
+
+/**
+ * Runtime operator and allowlist management through the console `op`/`deop`/`allowlist` commands.
+ * permissions.json only accepts xuids, so usernames are resolved from playerConnected events;
+ * players listed in `operators` are opped as soon as they join. Offline-mode players have no xuid
+ * and never make it into permissions.json, they are opped by name on every spawn instead.
+ */
+export function createAccessControl(options: {
+  bdsPath: string;
+  operators: string[];
+  events: EventEmitter<ExternalServerEvents>;
+  run: (command: string) => Promise<CommandResult>;
+}): AccessControl {
+  const { bdsPath, events, run } = options;
+  const operators = new Set(options.operators);
+  const xuids = new Map<string, string>();
+  // Op commands sent for the current session of each operator
+  const grants = new Map<string, Promise<void>>();
+  const grantWaiters = new Map<string, Array<(grant: Promise<void>) => void>>();
+
+  function syncPermissions(name: string, permission: PermissionLevel | null): void {
+    const xuid = xuids.get(name);
+    if (!xuid) return;
+    const entries = readPermissions(bdsPath).filter((e) => e.xuid !== xuid);
+    if (permission) {
+      entries.push({ permission, xuid });
+    }
+    writePermissions(bdsPath, entries);
+  }
+
+  events.on('playerConnected', (player) => {
+    if (player.xuid) xuids.set(player.name, player.xuid);
+  });
+
+  events.on('playerSpawned', (player) => {
+    if (player.xuid) xuids.set(player.name, player.xuid);
+    if (operators.has(player.name)) {
+      const grant = run(`op "${player.name}"`).then(() => syncPermissions(player.name, 'operator'));
+      grant.catch((err) => console.warn(`Failed to op ${player.name}: ${err.message}`));
+      grants.set(player.name, grant);
+      for (const waiter of grantWaiters.get(player.name) ?? []) waiter(grant);
+      grantWaiters.delete(player.name);
+    }
+  });
+
+  events.on('playerDisconnected', (player) => {
+    grants.delete(player.name);
+  });
+
+  return {
+    async op(player: string): Promise<void> {
+      operators.add(player);
+      try {
+        await run(`op "${player}"`);
+      } catch (err) {
+        // Not online yet, opped when they spawn
+        if (err instanceof CommandError && err.kind === 'no-targets') return;
+        throw err;
+      }
+      grants.set(player, Promise.resolve());
+      syncPermissions(player, 'operator');
+    },
+
+    async deop(player: string): Promise<void> {
+      operators.delete(player);
+      await run(`deop "${player}"`);
+      syncPermissions(player, null);
+    },
+
+    async allowlistAdd(player: string): Promise<void> {
+      await run(`allowlist add "${player}"`);
+      const entries = readAllowlist(bdsPath).filter((e) => e.name !== player);
+      entries.push({ name: player, xuid: xuids.get(player), ignoresPlayerLimit: false });
+      writeAllowlist(bdsPath, entries);
+    },
+
+    async allowlistRemove(player: string): Promise<void> {
+      await run(`allowlist remove "${player}"`);
+      writeAllowlist(
+        bdsPath,
+        readAllowlist(bdsPath).filter((e) => e.name !== player)
+      );
+    },
+
+    waitForOperator(player: string, timeout = 10000): Promise<void> {
+      const grant = grants.get(player);
+      if (grant) return grant;
+      if (!operators.has(player)) {
+        return Promise.reject(new Error(`${player} is not an operator`));
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const onGrant = (next: Promise<void>) => {
+          clearTimeout(timer);
+          next.then(resolve, reject);
+        };
+        const timer = setTimeout(() => {
+          const waiters = grantWaiters.get(player) ?? [];
+          waiters.splice(waiters.indexOf(onGrant), 1);
+          reject(new Error(`${player} was not opped within ${timeout}ms`));
+        }, timeout);
+        grantWaiters.set(player, [...(grantWaiters.get(player) ?? []), onGrant]);
+      });
+    },
+  };
+}
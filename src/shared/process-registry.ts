@@ -0,0 +1,186 @@
+import { spawnSync, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const isWindows = os.platform() === 'win32';
+
+const PID_FILE = 'bedrock_server.pid';
+// Index of PID files by port, so servers from other install directories are found too
+const PORTS_PATH = path.join(os.tmpdir(), 'bds-ports');
+
+export interface ServerPidInfo {
+  pid: number;
+  port: number;
+  bdsPath: string;
+  /** Node process that spawned the server */
+  parentPid: number;
+  startedAt: string;
+}
+
+interface TrackedServer {
+  child: ChildProcess;
+  info: ServerPidInfo;
+}
+
+const tracked = new Map<number, TrackedServer>();
+let handlersInstalled = false;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Check that a PID still belongs to a bedrock_server, PIDs get reused after a reboot.
+ */
+function isBedrockServerProcess(pid: number): boolean {
+  try {
+    if (os.platform() === 'linux') {
+      return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf8').includes('bedrock_server');
+    }
+    const result = isWindows
+      ? spawnSync('tasklist', ['/FI', `PID eq ${pid}`, '/NH'], { encoding: 'utf8' })
+      : spawnSync('ps', ['-p', String(pid), '-o', 'comm='], { encoding: 'utf8' });
+    return (result.stdout ?? '').includes('bedrock_server');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Kill a process and, on Windows, its whole tree. Synchronous so it can run in exit handlers.
+ */
+export function forceKillPid(pid: number): void {
+  try {
+    if (isWindows) {
+      // On Windows, use taskkill to kill the entire process tree
+      spawnSync('taskkill', ['/pid', pid.toString(), '/f', '/t'], { stdio: 'ignore' });
+    } else {
+      process.kill(pid, 'SIGKILL');
+    }
+  } catch {
+    // Process may already be dead
+  }
+}
+
+function pidFilePaths(info: { bdsPath: string; port: number }): string[] {
+  return [path.join(info.bdsPath, PID_FILE), path.join(PORTS_PATH, `${info.port}.pid`)];
+}
+
+function readPidFile(filePath: string): ServerPidInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function removePidFiles(info: ServerPidInfo): void {
+  for (const filePath of pidFilePaths(info)) {
+    // Another server may have taken over the port since
+    if (readPidFile(filePath)?.pid === info.pid) {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Kill every tracked server. Runs synchronously, there is no event loop left on exit.
+ */
+export function killTrackedServers(): void {
+  for (const { child, info } of tracked.values()) {
+    if (child.exitCode === null && child.signalCode === null) {
+      forceKillPid(info.pid);
+    }
+    removePidFiles(info);
+  }
+  tracked.clear();
+}
+
+function installExitHandlers(): void {
+  if (handlersInstalled) return;
+  handlersInstalled = true;
+
+  process.on('exit', killTrackedServers);
+  // Monitor only: the process still crashes as usual, after the servers are gone
+  process.on('uncaughtExceptionMonitor', killTrackedServers);
+
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    const onSignal = () => {
+      killTrackedServers();
+      process.off(signal, onSignal);
+      // Keep the default behavior unless someone else handles the signal (e.g. a server pool)
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    };
+    process.on(signal, onSignal);
+  }
+}
+
+/**
+ * Track a spawned server until it exits: writes PID files and kills it if this process exits,
+ * is interrupted or crashes.
+ */
+export function registerServerProcess(child: ChildProcess, options: { bdsPath: string; port: number }): void {
+  if (!child.pid) return;
+  installExitHandlers();
+
+  const info: ServerPidInfo = {
+    pid: child.pid,
+    port: options.port,
+    bdsPath: options.bdsPath,
+    parentPid: process.pid,
+    startedAt: new Date().toISOString(),
+  };
+  tracked.set(info.pid, { child, info });
+
+  fs.mkdirSync(PORTS_PATH, { recursive: true });
+  for (const filePath of pidFilePaths(info)) {
+    fs.writeFileSync(filePath, JSON.stringify(info, null, 2));
+  }
+
+  child.once('exit', () => {
+    tracked.delete(info.pid);
+    removePidFiles(info);
+  });
+}
+
+/**
+ * Kill servers left behind by earlier runs in this directory or on this port.
+ * A server whose parent is still alive belongs to another run and is reported instead of killed.
+ */
+export async function reapOrphanedServers(bdsPath: string, port: number): Promise<void> {
+  for (const filePath of pidFilePaths({ bdsPath, port })) {
+    const info = readPidFile(filePath);
+    if (!info || tracked.has(info.pid)) continue;
+
+    if (!isProcessAlive(info.pid) || !isBedrockServerProcess(info.pid)) {
+      fs.rmSync(filePath, { force: true });
+      continue;
+    }
+
+    if (info.parentPid !== process.pid && isProcessAlive(info.parentPid)) {
+      throw new Error(
+        `BDS (pid ${info.pid}) from ${info.bdsPath} is already running on port ${info.port}, started by live process ${info.parentPid}`
+      );
+    }
+
+    console.warn(`Killing orphaned BDS (pid ${info.pid}) from ${info.bdsPath} on port ${info.port}`);
+    forceKillPid(info.pid);
+
+    const start = Date.now();
+    while (isProcessAlive(info.pid) && Date.now() - start < 5000) {
+      await new Promise((r) => setTimeout(r, 100));
+    }
+    if (isProcessAlive(info.pid)) {
+      throw new Error(`Failed to kill orphaned BDS (pid ${info.pid}) on port ${info.port}`);
+    }
+    removePidFiles(info);
+  }
+}
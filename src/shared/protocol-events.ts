@@ -0,0 +1,36 @@
+import type { Player } from 'bedrock-protocol';
+import type { EventEmitter } from 'events';
+
+/** Packet names as bedrock-protocol's typings declare them for write() and queue() */
+export type PacketName = Parameters<Player['write']>[0];
+
+/**
+ * A packet as bedrock-protocol's 'packet' event delivers it.
+ */
+export interface DeserializedPacket<T = unknown> {
+  data: { name: string; params: T };
+}
+
+/**
+ * bedrock-protocol emits every packet as an event named after the packet (and all of them as 'packet'),
+ * but its typings only declare the connection events. These wrappers type the listener instead of each call site.
+ */
+export function onPacket<T>(connection: object, name: string, listener: (params: T) => void): () => void {
+  const emitter = connection as EventEmitter;
+  emitter.on(name, listener);
+  return () => emitter.off(name, listener);
+}
+
+/**
+ * Listen to every packet of a client or server-side player connection.
+ */
+export function onAnyPacket(connection: object, listener: (packet: DeserializedPacket) => void): () => void {
+  return onPacket(connection, 'packet', listener);
+}
+
+/**
+ * Send a packet whose name and params come from data, e.g. a recording, rather than from code.
+ */
+export function writePacket(connection: Player, name: string, params: unknown): void {
+  connection.write(name as PacketName, params as Parameters<Player['write']>[1]);
+}
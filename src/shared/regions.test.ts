@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import type { ExternalServer } from './external-server.ts';
+import { type Region, MAX_COMMAND_BLOCKS, hasRepoStructure, listRepoStructures, loadStructure, regionVolume, splitRegion } from './regions.ts';
+
+function totalVolume(parts: Region[]): number {
+  return parts.reduce((sum, [from, to]) => sum + regionVolume(from, to), 0);
+}
+
+describe('splitRegion', () => {
+  it('keeps a region within the limit whole, with sorted corners', () => {
+    assert.deepEqual(splitRegion({ x: 5, y: 10, z: -2 }, { x: 0, y: 0, z: 3 }), [
+      [
+        { x: 0, y: 0, z: -2 },
+        { x: 5, y: 10, z: 3 },
+      ],
+    ]);
+  });
+
+  it('halves along the longest axis', () => {
+    assert.deepEqual(splitRegion({ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 9 }, 10), [
+      [
+        { x: 0, y: 0, z: 0 },
+        { x: 1, y: 0, z: 4 },
+      ],
+      [
+        { x: 0, y: 0, z: 5 },
+        { x: 1, y: 0, z: 9 },
+      ],
+    ]);
+  });
+
+  it('covers a large region exactly, every part within the limit', () => {
+    const from = { x: -100, y: -64, z: -37 };
+    const to = { x: 99, y: 10, z: 41 };
+    const parts = splitRegion(from, to);
+
+    assert.ok(parts.length > 1);
+    assert.ok(parts.every(([min, max]) => regionVolume(min, max) <= MAX_COMMAND_BLOCKS));
+    assert.equal(totalVolume(parts), regionVolume(from, to));
+
+    // Parts are disjoint when their volumes add up and each lies inside the region
+    for (const [min, max] of parts) {
+      for (const axis of ['x', 'y', 'z'] as const) {
+        assert.ok(min[axis] >= from[axis] && max[axis] <= to[axis]);
+      }
+    }
+  });
+
+  it('splits odd sizes', () => {
+    const parts = splitRegion({ x: 0, y: 0, z: 0 }, { x: 6, y: 0, z: 0 }, 2);
+    assert.deepEqual(
+      parts.map(([min, max]) => [min.x, max.x]),
+      [
+        [0, 0],
+        [1, 2],
+        [3, 4],
+        [5, 6],
+      ]
+    );
+  });
+});
+
+describe('repo structures', () => {
+  it('lists .mcstructure files as namespace:name', () => {
+    const structuresPath = fs.mkdtempSync(path.join(os.tmpdir(), 'structures-'));
+    try {
+      fs.mkdirSync(path.join(structuresPath, 'farmer'));
+      fs.writeFileSync(path.join(structuresPath, 'farmer', 'farm.mcstructure'), '');
+      fs.writeFileSync(path.join(structuresPath, 'farmer', 'notes.txt'), '');
+      fs.writeFileSync(path.join(structuresPath, 'loose.mcstructure'), '');
+      assert.deepEqual(listRepoStructures(structuresPath), ['farmer:farm']);
+      assert.equal(hasRepoStructure('farmer:farm', structuresPath), true);
+    } finally {
+      fs.rmSync(structuresPath, { recursive: true, force: true });
+    }
+  });
+
+  it('has the test marker structure', () => {
+    assert.equal(hasRepoStructure('test:marker'), true);
+  });
+
+  it('loads a structure by its namespaced name', async () => {
+    const sent: string[] = [];
+    const server = {
+      async executeCommand(command: string) {
+        sent.push(command);
+        return { command, success: true, message: 'Loaded structure test:marker' };
+      },
+    } as unknown as ExternalServer;
+    await loadStructure(server, 'test:marker', { x: 10, y: -60, z: 4 });
+    assert.deepEqual(sent, ['structure load "test:marker" 10 -60 4 0_degrees none true true']);
+  });
+});
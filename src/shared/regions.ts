@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExternalServer } from './external-server.ts';
+import { getProjectRoot } from './settings.ts';
+import type { BlockPosition } from './test-utils.ts';
+
+/** Max blocks a single fill or clone may touch in BDS */
+export const MAX_COMMAND_BLOCKS = 32768;
+
+/**
+ * Repo directory of .mcstructure files, laid out as <namespace>/<name>.mcstructure.
+ * It is copied into the test_helper pack's structures folder, where BDS loads them as "namespace:name".
+ */
+export const STRUCTURES_PATH = path.join(getProjectRoot(), 'structures');
+
+export type Region = [from: BlockPosition, to: BlockPosition];
+
+export type FillMode = 'replace' | 'destroy' | 'keep' | 'hollow' | 'outline';
+
+export interface CloneOptions {
+  mask?: 'replace' | 'masked';
+  mode?: 'normal' | 'force' | 'move';
+}
+
+export interface SaveStructureOptions {
+  includeEntities?: boolean;
+  includeBlocks?: boolean;
+}
+
+export interface LoadStructureOptions {
+  rotation?: '0_degrees' | '90_degrees' | '180_degrees' | '270_degrees';
+  mirror?: 'none' | 'x' | 'z' | 'xz';
+  includeEntities?: boolean;
+  includeBlocks?: boolean;
+}
+
+function normalize(from: BlockPosition, to: BlockPosition): Region {
+  return [
+    { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), z: Math.min(from.z, to.z) },
+    { x: Math.max(from.x, to.x), y: Math.max(from.y, to.y), z: Math.max(from.z, to.z) },
+  ];
+}
+
+function formatPos(pos: BlockPosition): string {
+  return `${pos.x} ${pos.y} ${pos.z}`;
+}
+
+export function regionVolume(from: BlockPosition, to: BlockPosition): number {
+  const [min, max] = normalize(from, to);
+  return (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+}
+
+/**
+ * Split a cuboid into cuboids of at most maxBlocks blocks, halving along the longest axis.
+ */
+export function splitRegion(from: BlockPosition, to: BlockPosition, maxBlocks = MAX_COMMAND_BLOCKS): Region[] {
+  const [min, max] = normalize(from, to);
+  if (regionVolume(min, max) <= maxBlocks) {
+    return [[min, max]];
+  }
+
+  const sizes = { x: max.x - min.x + 1, y: max.y - min.y + 1, z: max.z - min.z + 1 };
+  const axis = (['x', 'y', 'z'] as const).reduce((longest, a) => (sizes[a] > sizes[longest] ? a : longest));
+  const middle = min[axis] + Math.floor(sizes[axis] / 2) - 1;
+
+  return [
+    ...splitRegion(min, { ...max, [axis]: middle }, maxBlocks),
+    ...splitRegion({ ...min, [axis]: middle + 1 }, max, maxBlocks),
+  ];
+}
+
+/**
+ * Fill a region of any size, split into commands within the BDS block limit.
+ * Returns the number of blocks changed. hollow and outline only make sense for a single cuboid.
+ */
+export async function fillRegion(
+  server: ExternalServer,
+  from: BlockPosition,
+  to: BlockPosition,
+  block: string,
+  mode: FillMode = 'replace'
+): Promise<number> {
+  const parts = splitRegion(from, to);
+  if (parts.length > 1 && (mode === 'hollow' || mode === 'outline')) {
+    throw new Error(`Cannot ${mode} a region of ${regionVolume(from, to)} blocks, the limit is ${MAX_COMMAND_BLOCKS}`);
+  }
+
+  let count = 0;
+  for (const [min, max] of parts) {
+    const result = await server.executeCommand(`fill ${formatPos(min)} ${formatPos(max)} ${block} ${mode}`);
+    count += result.count ?? 0;
+  }
+  return count;
+}
+
+function overlaps([aMin, aMax]: Region, [bMin, bMax]: Region): boolean {
+  return (['x', 'y', 'z'] as const).every((axis) => aMin[axis] <= bMax[axis] && bMin[axis] <= aMax[axis]);
+}
+
+/**
+ * Clone a region to `dest` (its lowest corner), split like fillRegion. Returns the number of blocks cloned.
+ * Split clones run one after another, so overlapping source and destination are only allowed within the limit.
+ */
+export async function cloneRegion(
+  server: ExternalServer,
+  from: BlockPosition,
+  to: BlockPosition,
+  dest: BlockPosition,
+  options: CloneOptions = {}
+): Promise<number> {
+  const { mask = 'replace', mode = 'normal' } = options;
+  const [min, max] = normalize(from, to);
+  const parts = splitRegion(min, max);
+
+  const destMax = { x: dest.x + max.x - min.x, y: dest.y + max.y - min.y, z: dest.z + max.z - min.z };
+  if (parts.length > 1 && overlaps([min, max], [dest, destMax])) {
+    throw new Error(`Cannot clone ${regionVolume(min, max)} blocks onto an overlapping destination, the limit is ${MAX_COMMAND_BLOCKS}`);
+  }
+
+  let count = 0;
+  for (const [partMin, partMax] of parts) {
+    const partDest = { x: dest.x + partMin.x - min.x, y: dest.y + partMin.y - min.y, z: dest.z + partMin.z - min.z };
+    const result = await server.executeCommand(`clone ${formatPos(partMin)} ${formatPos(partMax)} ${formatPos(partDest)} ${mask} ${mode}`);
+    count += result.count ?? 0;
+  }
+  return count;
+}
+
+/**
+ * Save a region as a structure in the world's database (`structure save ... disk`).
+ * It is lost with the world; BDS has no command to write .mcstructure files, so export one
+ * with a structure block and put it in STRUCTURES_PATH to make it available to every run.
+ */
+export async function saveStructure(
+  server: ExternalServer,
+  name: string,
+  from: BlockPosition,
+  to: BlockPosition,
+  options: SaveStructureOptions = {}
+): Promise<void> {
+  const { includeEntities = false, includeBlocks = true } = options;
+  await server.executeCommand(`structure save "${name}" ${formatPos(from)} ${formatPos(to)} ${includeEntities} disk ${includeBlocks}`);
+}
+
+/**
+ * Load a structure with its lowest corner at `to`.
+ * Names resolve to structures saved in the world or to files from STRUCTURES_PATH ("namespace:name").
+ */
+export async function loadStructure(server: ExternalServer, name: string, to: BlockPosition, options: LoadStructureOptions = {}): Promise<void> {
+  const { rotation = '0_degrees', mirror = 'none', includeEntities = true, includeBlocks = true } = options;
+  await server.executeCommand(`structure load "${name}" ${formatPos(to)} ${rotation} ${mirror} ${includeEntities} ${includeBlocks}`);
+}
+
+export async function deleteStructure(server: ExternalServer, name: string): Promise<void> {
+  await server.executeCommand(`structure delete "${name}"`);
+}
+
+/**
+ * Structures stored in the repo, as "namespace:name".
+ */
+export function listRepoStructures(structuresPath = STRUCTURES_PATH): string[] {
+  if (!fs.existsSync(structuresPath)) return [];
+  const names: string[] = [];
+  for (const namespace of fs.readdirSync(structuresPath, { withFileTypes: true })) {
+    if (!namespace.isDirectory()) continue;
+    for (const file of fs.readdirSync(path.join(structuresPath, namespace.name))) {
+      if (file.endsWith('.mcstructure')) {
+        names.push(`${namespace.name}:${file.slice(0, -'.mcstructure'.length)}`);
+      }
+    }
+  }
+  return names;
+}
+
+export function hasRepoStructure(name: string, structuresPath = STRUCTURES_PATH): boolean {
+  return listRepoStructures(structuresPath).includes(name);
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+import { type ServerPoolOptions, createServerPool } from './server-pool.ts';
+import { type Scenario, type ScenarioResult, runScenario } from './scenario.ts';
+import type { ServerBackend } from './external-server.ts';
+
+export interface RunScenariosOptions extends ServerPoolOptions {
+  /** Scenarios run at the same time, one pooled server each (default: 1) */
+  workers?: number;
+  /** Only run scenarios whose name contains this text */
+  filter?: string;
+  /** Write a JUnit XML report to this path */
+  junitPath?: string;
+  /** Called as each scenario finishes */
+  onResult?: (result: ScenarioResult) => void;
+}
+
+/**
+ * Run scenarios in parallel on a server pool; pooled servers use the worker port scheme (getPoolPort)
+ * and get a fresh world for every scenario. Results are in the order of `scenarios`.
+ */
+export async function runScenarios(scenarios: Scenario[], options: RunScenariosOptions = {}): Promise<ScenarioResult[]> {
+  const { workers = 1, filter, junitPath, onResult, ...poolOptions } = options;
+  const selected = filter ? scenarios.filter((s) => s.name.includes(filter)) : scenarios;
+  if (selected.length === 0) return [];
+
+  const backend = poolOptions.backend ?? (process.env.SERVER_BACKEND as ServerBackend | undefined) ?? 'bds';
+  const unsupported = selected.filter((s) => s.backends && !s.backends.includes(backend));
+  if (unsupported.length > 0) {
+    const names = unsupported.map((s) => `  ${s.name} (needs ${s.backends?.join(' or ')})`).join('\n');
+    throw new Error(`${unsupported.length} scenarios can't run on the ${backend} backend:\n${names}`);
+  }
+
+  const pool = await createServerPool({ ...poolOptions, size: Math.min(workers, selected.length) });
+  const results: ScenarioResult[] = new Array(selected.length);
+  let next = 0;
+
+  try {
+    await Promise.all(
+      Array.from({ length: pool.size }, async () => {
+        while (next < selected.length) {
+          const index = next++;
+          const result = await pool.withLease((server) => runScenario(server, selected[index]));
+          results[index] = result;
+          onResult?.(result);
+        }
+      })
+    );
+  } finally {
+    await pool.shutdown();
+  }
+
+  if (junitPath) {
+    fs.mkdirSync(path.dirname(junitPath), { recursive: true });
+    fs.writeFileSync(junitPath, toJUnitXml(results));
+  }
+  return results;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c] ?? c);
+}
+
+function formatSteps(result: ScenarioResult): string {
+  return result.steps.map((s) => `[${s.status}] ${s.kind} ${s.name} (${s.duration}ms)${s.error ? `: ${s.error.message}` : ''}`).join('\n');
+}
+
+/**
+ * JUnit XML with one test case per scenario, readable by CI test report viewers.
+ */
+export function toJUnitXml(results: ScenarioResult[], suiteName = 'scenarios'): string {
+  const failures = results.filter((r) => r.status === 'failed').length;
+  const time = results.reduce((sum, r) => sum + r.duration, 0) / 1000;
+  const cases = results.map((result) => {
+    const body = [
+      result.error
+        ? `      <failure message="${escapeXml(result.error.message.split('\n')[0])}" type="ScenarioFailure">${escapeXml(result.error.stack ?? result.error.message)}</failure>`
+        : '',
+      `      <system-out>${escapeXml([formatSteps(result), ...result.logs].join('\n'))}</system-out>`,
+    ].filter(Boolean);
+    return [
+      `    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(result.name)}" time="${(result.duration / 1000).toFixed(3)}">`,
+      ...body,
+      '    </testcase>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${results.length}" failures="${failures}" time="${time.toFixed(3)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${results.length}" failures="${failures}" time="${time.toFixed(3)}" timestamp="${new Date().toISOString()}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * One line per scenario plus failure details and totals.
+ */
+export function formatScenarioSummary(results: ScenarioResult[]): string {
+  const failed = results.filter((r) => r.status === 'failed');
+  const lines = results.map((r) => `  ${r.status === 'passed' ? 'PASS' : 'FAIL'} ${r.name} (${(r.duration / 1000).toFixed(1)}s, port ${r.port})`);
+  for (const result of failed) {
+    lines.push('', `--- ${result.name} ---`, formatSteps(result));
+  }
+  lines.push('', `${results.length - failed.length} passed, ${failed.length} failed`);
+  return lines.join('\n');
+}
+
+/**
+ * Scenarios exported by a module, as `default` or `scenarios` (a scenario or an array of them).
+ */
+export async function loadScenarios(file: string): Promise<Scenario[]> {
+  const module = await import(pathToFileURL(path.resolve(file)).href);
+  return [module.default, module.scenarios].flat().filter((s): s is Scenario => !!s && typeof s.name === 'string');
+}
+
+// npm run scenarios -- <files...> [--workers 2] [--junit reports/scenarios.xml] [--filter name] [--backend stand-in]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      workers: { type: 'string', short: 'w' },
+      junit: { type: 'string' },
+      filter: { type: 'string' },
+      backend: { type: 'string' },
+    },
+  });
+
+  const scenarios = (await Promise.all(positionals.map(loadScenarios))).flat();
+  console.log(`Running ${scenarios.length} scenarios from ${positionals.length} files`);
+
+  const results = await runScenarios(scenarios, {
+    workers: parseInt(values.workers ?? '1', 10),
+    filter: values.filter,
+    junitPath: values.junit,
+    backend: values.backend as ServerBackend | undefined,
+    onResult: (r) => console.log(`${r.status === 'passed' ? 'PASS' : 'FAIL'} ${r.name}`),
+  });
+
+  console.log(`\n${formatScenarioSummary(results)}`);
+  if (values.junit) console.log(`JUnit report: ${values.junit}`);
+  process.exit(results.some((r) => r.status === 'failed') ? 1 : 0);
+}
@@ -0,0 +1,345 @@
+import { setTimeout as delay } from 'timers/promises';
+import type { Bot, BotOptions, Plugin } from 'mineflayer';
+import type { ExternalServer, ServerBackend } from './external-server.ts';
+import {
+  type BlockPosition,
+  type BlockStates,
+  type CompareRegionOptions,
+  assertInventoryMatch,
+  assertWorldRegionMatch,
+  connectBotToExternalServer,
+  getClientInventory,
+  getServerBlock,
+  getServerInventory,
+  sleep,
+  teleportPlayer,
+  waitForBotSpawn,
+  waitForServerPlayerSpawn,
+  withServerLog,
+} from './test-utils.ts';
+import { type CommandBatch, assertBatchSucceeded, createCommandBatch } from './command-batch.ts';
+import { type WorldSettings, applyWorldSettings } from './world-rules.ts';
+
+export interface ScenarioBot {
+  /** Username (default: ScenarioBot<n>) */
+  username?: string;
+  /** Mineflayer plugins loaded before the bot spawns */
+  plugins?: Plugin[];
+  options?: Partial<BotOptions>;
+  /** Teleport the bot here once it spawned, before the world setup runs */
+  position?: BlockPosition;
+  /** Called after the world setup, before the first action */
+  setup?: (bot: Bot, ctx: ScenarioContext) => void | Promise<void>;
+}
+
+export interface ScenarioContext {
+  server: ExternalServer;
+  bots: Bot[];
+  /** The first bot */
+  bot: Bot;
+  /** Milliseconds since the actions started */
+  elapsed(): number;
+  /** Recorded in the server log and the scenario result */
+  log(message: string): void;
+  /** Aborted when the scenario times out; pass it to waiters so a timed-out step stops instead of running on */
+  signal: AbortSignal;
+}
+
+export interface ScenarioAction {
+  name: string;
+  /** Start this many ms after the actions started (default: right after the previous action) */
+  at?: number;
+  run(ctx: ScenarioContext): void | Promise<void>;
+}
+
+export interface ScenarioAssertion {
+  name: string;
+  check(ctx: ScenarioContext): Promise<void>;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  /** Game rules, time and weather applied before the bots join */
+  world?: WorldSettings;
+  /** Bots joining the server in order (default: one bot) */
+  bots?: ScenarioBot[];
+  /** World setup, run once the bots spawned so their chunks are loaded */
+  setup?: CommandBatch | string[] | ((ctx: ScenarioContext) => Promise<void>);
+  actions?: ScenarioAction[];
+  /** Checked in order after the actions; all of them run, even after a failure */
+  assertions?: ScenarioAssertion[];
+  /** Called after the scenario passed or failed, before the bots disconnect */
+  teardown?: (ctx: ScenarioContext) => void | Promise<void>;
+  /** Time limit for the whole scenario in ms (default: 120000) */
+  timeout?: number;
+  /** Server backends the scenario can run on, e.g. ['bds'] when the bots break or place blocks (default: all) */
+  backends?: ServerBackend[];
+}
+
+export type StepKind = 'world' | 'bots' | 'setup' | 'action' | 'assertion' | 'teardown';
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface StepResult {
+  kind: StepKind;
+  name: string;
+  status: StepStatus;
+  /** Duration in ms */
+  duration: number;
+  error?: Error;
+}
+
+export interface ScenarioResult {
+  name: string;
+  status: 'passed' | 'failed';
+  /** Duration in ms */
+  duration: number;
+  steps: StepResult[];
+  /** First failure, with the server log slice of the scenario attached */
+  error?: Error;
+  /** Messages passed to ctx.log */
+  logs: string[];
+  /** Port of the server the scenario ran on */
+  port: number;
+}
+
+/**
+ * Identity function that types a scenario definition.
+ */
+export function defineScenario(scenario: Scenario): Scenario {
+  return scenario;
+}
+
+function withDeadline<T>(promise: Promise<T>, deadline: number, step: string, controller: AbortController): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Scenario timed out during ${step}`);
+      // Steps listening to ctx.signal stop here instead of running on in the background
+      controller.abort(error);
+      reject(error);
+    }, Math.max(0, deadline - Date.now()));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function connectScenarioBot(server: ExternalServer, definition: ScenarioBot, index: number): Promise<Bot> {
+  const username = definition.username ?? `ScenarioBot${index + 1}`;
+  const serverSpawn = waitForServerPlayerSpawn(server, username);
+  const bot = await connectBotToExternalServer(server, { ...definition.options, username });
+  for (const plugin of definition.plugins ?? []) {
+    bot.loadPlugin(plugin);
+  }
+  try {
+    await Promise.all([waitForBotSpawn(bot), serverSpawn]);
+  } catch (err) {
+    bot.quit();
+    throw err;
+  }
+  if (definition.position) {
+    const { x, y, z } = definition.position;
+    await teleportPlayer(server, username, x, y, z);
+  }
+  return bot;
+}
+
+/**
+ * Run a scenario on a started server: world settings, bots, setup, actions, then assertions.
+ * Never throws; failures are reported in the result with the scenario's server log attached.
+ */
+export async function runScenario(server: ExternalServer, scenario: Scenario): Promise<ScenarioResult> {
+  const start = Date.now();
+  const deadline = start + (scenario.timeout ?? 120000);
+  const steps: StepResult[] = [];
+  const logs: string[] = [];
+  const bots: Bot[] = [];
+  const controller = new AbortController();
+  let actionsStart = start;
+
+  const ctx: ScenarioContext = {
+    server,
+    bots,
+    get bot() {
+      return bots[0];
+    },
+    elapsed: () => Date.now() - actionsStart,
+    log(message: string) {
+      logs.push(message);
+      server.log.mark(`SCENARIO ${scenario.name}: ${message}`);
+    },
+    signal: controller.signal,
+  };
+
+  async function step(kind: StepKind, name: string, fn: () => unknown): Promise<boolean> {
+    const stepStart = Date.now();
+    try {
+      await withDeadline(Promise.resolve().then(fn), deadline, `${kind} "${name}"`, controller);
+      steps.push({ kind, name, status: 'passed', duration: Date.now() - stepStart });
+      return true;
+    } catch (err) {
+      steps.push({ kind, name, status: 'failed', duration: Date.now() - stepStart, error: err as Error });
+      return false;
+    }
+  }
+
+  function skip(kind: StepKind, name: string): void {
+    steps.push({ kind, name, status: 'skipped', duration: 0 });
+  }
+
+  let error: Error | undefined;
+  try {
+    await withServerLog(server, `scenario ${scenario.name}`, async () => {
+      const world = scenario.world;
+      let ok = !world || (await step('world', 'world settings', () => applyWorldSettings(server, world)));
+
+      const botDefinitions = scenario.bots ?? [{}];
+      ok = ok && (await step('bots', `${botDefinitions.length} bot(s) spawned`, async () => {
+        for (const [index, definition] of botDefinitions.entries()) {
+          controller.signal.throwIfAborted();
+          bots.push(await connectScenarioBot(server, definition, index));
+        }
+      }));
+
+      const setup = scenario.setup;
+      if (setup) {
+        ok = ok && (await step('setup', 'world setup', async () => {
+          if (typeof setup === 'function') {
+            await setup(ctx);
+          } else {
+            const batch = Array.isArray(setup) ? createCommandBatch(setup) : setup;
+            assertBatchSucceeded(await batch.run(server), 'World setup failed');
+          }
+        }));
+      }
+      for (const [index, definition] of botDefinitions.entries()) {
+        const botSetup = definition.setup;
+        if (botSetup) {
+          ok = ok && (await step('setup', `bot ${index + 1} setup`, () => botSetup(bots[index], ctx)));
+        }
+      }
+
+      actionsStart = Date.now();
+      for (const action of scenario.actions ?? []) {
+        if (!ok) {
+          skip('action', action.name);
+          continue;
+        }
+        ok = await step('action', action.name, async () => {
+          if (action.at !== undefined) await delay(Math.max(0, action.at - ctx.elapsed()), undefined, { signal: ctx.signal });
+          await action.run(ctx);
+        });
+      }
+
+      for (const assertion of scenario.assertions ?? []) {
+        if (!ok || Date.now() >= deadline) {
+          skip('assertion', assertion.name);
+          continue;
+        }
+        await step('assertion', assertion.name, () => assertion.check(ctx));
+      }
+
+      const teardown = scenario.teardown;
+      if (teardown) {
+        await step('teardown', 'teardown', () => teardown(ctx));
+      }
+
+      const failed = steps.filter((s) => s.status === 'failed');
+      if (failed.length > 0) {
+        const details = failed.map((s) => `  ${s.kind} "${s.name}": ${s.error?.message}`).join('\n');
+        const failure = new Error(`Scenario "${scenario.name}" failed:\n${details}`);
+        failure.stack = `${failure.message}\n${failed[0].error?.stack ?? ''}`;
+        throw failure;
+      }
+    });
+  } catch (err) {
+    error = err as Error;
+  } finally {
+    for (const bot of bots) {
+      bot.quit();
+    }
+  }
+
+  return {
+    name: scenario.name,
+    status: error ? 'failed' : 'passed',
+    duration: Date.now() - start,
+    steps,
+    error,
+    logs,
+    port: server.port,
+  };
+}
+
+// ============================================================================
+// Assertions
+// ============================================================================
+
+/**
+ * The bot's inventory matches the server's. Requires test_helper behavior pack.
+ */
+export function expectInventoryMatch(botIndex = 0): ScenarioAssertion {
+  return {
+    name: `bot ${botIndex + 1} inventory matches server`,
+    async check(ctx) {
+      const bot = ctx.bots[botIndex];
+      // Give the last inventory packets time to arrive
+      await sleep(500);
+      assertInventoryMatch(getClientInventory(bot), await getServerInventory(ctx.server, bot.username), `${bot.username} inventory`);
+    },
+  };
+}
+
+/**
+ * The server has `name` (and the given states) at a position. Requires test_helper behavior pack.
+ */
+export function expectBlock(position: BlockPosition, name: string, states: BlockStates = {}): ScenarioAssertion {
+  return {
+    name: `block at ${position.x} ${position.y} ${position.z} is ${name}`,
+    async check(ctx) {
+      const block = await getServerBlock(ctx.server, position.x, position.y, position.z);
+      const wrongStates = Object.entries(states).filter(([key, value]) => String(block.states[key]) !== String(value));
+      if (block.name !== name || wrongStates.length > 0) {
+        throw new Error(`Expected ${name} ${JSON.stringify(states)}, server has ${block.name} ${JSON.stringify(block.states)}`);
+      }
+    },
+  };
+}
+
+/**
+ * The first bot and the server agree on every block in a region. Requires test_helper behavior pack.
+ */
+export function expectRegionMatch(from: BlockPosition, to: BlockPosition, options?: CompareRegionOptions): ScenarioAssertion {
+  return {
+    name: `region ${from.x} ${from.y} ${from.z} to ${to.x} ${to.y} ${to.z} matches server`,
+    check: (ctx) => assertWorldRegionMatch(ctx.bot, ctx.server, from, to, undefined, options),
+  };
+}
+
+/**
+ * A condition becomes true within `timeout` ms, polled every `interval` ms.
+ */
+export function expectEventually(
+  name: string,
+  condition: (ctx: ScenarioContext) => boolean | Promise<boolean>,
+  timeout = 30000,
+  interval = 250
+): ScenarioAssertion {
+  return {
+    name,
+    async check(ctx) {
+      const end = Date.now() + timeout;
+      let lastError: unknown;
+      while (Date.now() < end) {
+        ctx.signal.throwIfAborted();
+        try {
+          if (await condition(ctx)) return;
+        } catch (err) {
+          // Server queries can fail while the world is changing, keep polling
+          lastError = err;
+        }
+        await delay(interval, undefined, { signal: ctx.signal });
+      }
+      throw new Error(`"${name}" not true within ${timeout}ms${lastError ? ` (last error: ${(lastError as Error).message})` : ''}`);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { describe, it } from 'node:test';
+import type { ExternalServer } from './external-server.ts';
+import { ScriptError, callServerScript } from './script-rpc.ts';
+
+// Only the line events and sendCommand are used by callServerScript
+function createFakeServer() {
+  const sent: Array<{ id: string; method: string; params: unknown }> = [];
+  const events = new EventEmitter();
+  const server = Object.assign(events, {
+    async sendCommand(command: string): Promise<void> {
+      sent.push(JSON.parse(command.replace(/^scriptevent test:rpc /, '')));
+    },
+  });
+  const respond = (id: string, payload: string, partLength = 1000) => {
+    const total = Math.max(1, Math.ceil(payload.length / partLength));
+    for (let part = 0; part < total; part++) {
+      events.emit('line', `[2025-01-01 12:00:00:000 INFO] [Scripting] [RPC:${id}:${part + 1}/${total}]${payload.slice(part * partLength, (part + 1) * partLength)}`);
+    }
+  };
+  return { server: server as unknown as ExternalServer, sent, respond };
+}
+
+describe('callServerScript', () => {
+  it('sends the method and params and resolves with the result', async () => {
+    const { server, sent, respond } = createFakeServer();
+    const call = callServerScript(server, 'block', { x: 1, y: 2, z: 3 });
+    await Promise.resolve();
+    assert.equal(sent[0].method, 'block');
+    assert.deepEqual(sent[0].params, { x: 1, y: 2, z: 3 });
+
+    respond(sent[0].id, JSON.stringify({ ok: true, result: { name: 'stone', states: {} } }));
+    assert.deepEqual(await call, { name: 'stone', states: {} });
+  });
+
+  it('reassembles responses split into parts, in any order', async () => {
+    const { server, sent } = createFakeServer();
+    const call = callServerScript<{ indices: number[] }>(server, 'region', {});
+    await Promise.resolve();
+
+    const payload = JSON.stringify({ ok: true, result: { indices: new Array(500).fill(7) } });
+    const parts = [payload.slice(0, 400), payload.slice(400, 800), payload.slice(800)];
+    const { id } = sent[0];
+    (server as unknown as EventEmitter).emit('line', `[RPC:${id}:3/3]${parts[2]}`);
+    (server as unknown as EventEmitter).emit('line', `[RPC:${id}:1/3]${parts[0]}`);
+    (server as unknown as EventEmitter).emit('line', `[RPC:${id}:2/3]${parts[1]}`);
+    assert.equal((await call).indices.length, 500);
+  });
+
+  it('keeps concurrent calls apart', async () => {
+    const { server, sent, respond } = createFakeServer();
+    const first = callServerScript(server, 'ping');
+    const second = callServerScript(server, 'ping');
+    await Promise.resolve();
+
+    respond(sent[1].id, JSON.stringify({ ok: true, result: 'second' }));
+    respond(sent[0].id, JSON.stringify({ ok: true, result: 'first' }));
+    assert.deepEqual(await Promise.all([first, second]), ['first', 'second']);
+  });
+
+  it('rejects with the kind of the failure', async () => {
+    const { server, sent, respond } = createFakeServer();
+    const unknown = callServerScript(server, 'fly');
+    const failed = callServerScript(server, 'inventory', { player: 'Nobody' });
+    const malformed = callServerScript(server, 'state');
+    await Promise.resolve();
+
+    respond(sent[0].id, JSON.stringify({ ok: false, error: { name: 'UnknownMethod', message: 'Unknown method: fly' } }));
+    respond(sent[1].id, JSON.stringify({ ok: false, error: { name: 'Error', message: 'Player not found: Nobody' } }));
+    respond(sent[2].id, '{"ok": tru');
+    await assert.rejects(unknown, (err) => err instanceof ScriptError && err.kind === 'unknown-method');
+    await assert.rejects(failed, (err) => err instanceof ScriptError && err.kind === 'script' && err.remoteName === 'Error');
+    await assert.rejects(malformed, (err) => err instanceof ScriptError && err.kind === 'malformed-response');
+  });
+
+  it('times out without a response', async () => {
+    const { server } = createFakeServer();
+    await assert.rejects(callServerScript(server, 'ping', undefined, 10), (err) => err instanceof ScriptError && err.kind === 'timeout');
+  });
+});
@@ -0,0 +1,115 @@
+import type { ExternalServer } from './external-server.ts';
+
+export type ScriptErrorKind = 'script' | 'unknown-method' | 'timeout' | 'malformed-response';
+
+/**
+ * Thrown by callServerScript when the server script failed, doesn't know the method or didn't answer.
+ */
+export class ScriptError extends Error {
+  readonly method: string;
+  readonly kind: ScriptErrorKind;
+  /** Error name reported by the script, e.g. "TypeError" */
+  readonly remoteName?: string;
+
+  constructor(method: string, kind: ScriptErrorKind, message: string, remoteName?: string) {
+    super(`${method}: ${message}`);
+    this.name = 'ScriptError';
+    this.method = method;
+    this.kind = kind;
+    this.remoteName = remoteName;
+  }
+}
+
+interface PendingCall {
+  method: string;
+  parts: string[];
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+type RpcResponse = { ok: true; result: unknown } | { ok: false; error: { name: string; message: string } };
+
+// Response parts are printed anywhere in a console line, after BDS's log prefix
+const RESPONSE_PATTERN = /\[RPC:([\w-]+):(\d+)\/(\d+)\](.*)$/;
+
+// One line listener per server, shared by all in-flight calls
+const pendingByServer = new WeakMap<ExternalServer, Map<string, PendingCall>>();
+let nextId = 1;
+const idPrefix = process.pid.toString(36);
+
+function getPending(server: ExternalServer): Map<string, PendingCall> {
+  let pending = pendingByServer.get(server);
+  if (pending) return pending;
+
+  const calls = new Map<string, PendingCall>();
+  pending = calls;
+  pendingByServer.set(server, calls);
+
+  server.on('line', (line) => {
+    const match = line.match(RESPONSE_PATTERN);
+    if (!match) return;
+    const [, id, part, total, data] = match;
+    const call = calls.get(id);
+    if (!call) return;
+
+    call.parts[parseInt(part, 10) - 1] = data;
+    const expected = parseInt(total, 10);
+    if (call.parts.filter((p) => p !== undefined).length < expected) return;
+
+    calls.delete(id);
+    let response: RpcResponse;
+    try {
+      response = JSON.parse(call.parts.join(''));
+    } catch {
+      call.reject(new ScriptError(call.method, 'malformed-response', `could not parse response: ${call.parts.join('').slice(0, 200)}`));
+      return;
+    }
+
+    if (response.ok) {
+      call.resolve(response.result);
+    } else {
+      const kind = response.error.name === 'UnknownMethod' ? 'unknown-method' : 'script';
+      call.reject(new ScriptError(call.method, kind, response.error.message, response.error.name));
+    }
+  });
+
+  return calls;
+}
+
+/**
+ * Call a handler of the test_helper behavior pack and wait for its result.
+ * Requests carry an id so concurrent calls never see each other's responses;
+ * responses longer than a console line arrive in parts and are reassembled.
+ */
+export function callServerScript<T = unknown>(server: ExternalServer, method: string, params?: unknown, timeout = 5000): Promise<T> {
+  const pending = getPending(server);
+  const id = `${idPrefix}-${nextId++}`;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new ScriptError(method, 'timeout', `no response within ${timeout}ms, is the test_helper behavior pack installed?`));
+    }, timeout);
+
+    pending.set(id, {
+      method,
+      parts: [],
+      resolve: (result) => {
+        clearTimeout(timer);
+        // The handler's result is JSON, its shape is what the caller asked for with T
+        resolve(result as T);
+      },
+      reject: (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    });
+
+    const request = JSON.stringify({ id, method, params: params ?? {} });
+    server.sendCommand(`scriptevent test:rpc ${request}`).catch((err) => {
+      pending.delete(id);
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
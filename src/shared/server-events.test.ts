@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createLineSplitter, parseServerLine } from './server-events.ts';
+
+describe('parseServerLine', () => {
+  it('parses startup lines', () => {
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 INFO] Server started.'), { type: 'started' });
+    assert.deepEqual(parseServerLine('NO LOG FILE! - [2025-01-01 12:00:00:000 INFO] Level Name: Bedrock level'), {
+      type: 'levelLoaded',
+      level: { name: 'Bedrock level' },
+    });
+  });
+
+  it('parses player lines with and without a xuid', () => {
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 INFO] Player connected: Steve, xuid: 2535412345678901'), {
+      type: 'playerConnected',
+      player: { name: 'Steve', xuid: '2535412345678901' },
+    });
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 INFO] Player Spawned: TestBot1 xuid: , pfid: 123'), {
+      type: 'playerSpawned',
+      player: { name: 'TestBot1', xuid: '' },
+    });
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 INFO] Player disconnected: Test Bot, xuid: , pfid: 123'), {
+      type: 'playerDisconnected',
+      player: { name: 'Test Bot', xuid: '' },
+    });
+  });
+
+  it('parses save confirmations', () => {
+    assert.deepEqual(parseServerLine('Data saved. Files are now ready to be copied.'), { type: 'worldSaved' });
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 INFO] Changes to the level are resumed.'), { type: 'worldSaved' });
+  });
+
+  it('only reports script errors from error and warning lines', () => {
+    assert.deepEqual(parseServerLine('[2025-01-01 12:00:00:000 ERROR] [Scripting] TypeError: not a function'), {
+      type: 'scriptError',
+      message: 'TypeError: not a function',
+    });
+    assert.equal(parseServerLine('[2025-01-01 12:00:00:000 INFO] [Scripting] [RPC:1:1/1]{}'), null);
+  });
+
+  it('returns null for other lines', () => {
+    assert.equal(parseServerLine('[2025-01-01 12:00:00:000 INFO] Version: 1.21.50.10'), null);
+    assert.equal(parseServerLine(''), null);
+  });
+});
+
+describe('createLineSplitter', () => {
+  it('joins lines split across chunks', () => {
+    const lines: string[] = [];
+    const split = createLineSplitter((line) => lines.push(line));
+    split('Player conn');
+    split('ected: Bot, xuid: \r\nSecond');
+    assert.deepEqual(lines, ['Player connected: Bot, xuid: ']);
+    split(' line\n');
+    assert.deepEqual(lines, ['Player connected: Bot, xuid: ', 'Second line']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Typed events parsed from BDS console output.
+ */
+
+export interface ServerPlayerInfo {
+  name: string;
+  xuid: string;
+}
+
+export interface ServerCrashInfo {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  /** Last console lines before the process died */
+  lastLines: string[];
+}
+
+export interface ServerRestartInfo {
+  /** Restart attempt within the supervisor's window, starting at 1 */
+  attempt: number;
+  /** Backoff before this attempt in ms */
+  delay: number;
+  crash: ServerCrashInfo;
+  /** Crash log written for this crash, if any */
+  crashLogPath: string | null;
+}
+
+export interface ExternalServerEvents {
+  /** Every complete console line, without the trailing newline */
+  line: [line: string];
+  started: [];
+  levelLoaded: [level: { name: string }];
+  playerConnected: [player: ServerPlayerInfo];
+  playerSpawned: [player: ServerPlayerInfo];
+  playerDisconnected: [player: ServerPlayerInfo];
+  worldSaved: [];
+  scriptError: [error: { message: string }];
+  crashed: [crash: ServerCrashInfo];
+  /** Supervisor is about to restart a crashed server */
+  restarting: [restart: ServerRestartInfo];
+  /** Supervisor restarted the server on the same port and world, bots can reconnect */
+  restarted: [restart: ServerRestartInfo];
+  /** Supervisor gave up after too many crashes */
+  restartFailed: [failure: { attempts: number; error: Error }];
+}
+
+export type ParsedServerLine =
+  | { type: 'started' }
+  | { type: 'levelLoaded'; level: { name: string } }
+  | { type: 'playerConnected'; player: ServerPlayerInfo }
+  | { type: 'playerSpawned'; player: ServerPlayerInfo }
+  | { type: 'playerDisconnected'; player: ServerPlayerInfo }
+  | { type: 'worldSaved' }
+  | { type: 'scriptError'; message: string };
+
+// Strip "[2024-01-01 12:00:00:000 INFO] " style prefixes
+const LOG_PREFIX = /^(NO LOG FILE! - )?\[\d{4}-\d{2}-\d{2}[^\]]*\]\s*/;
+const ERROR_PREFIX = /^(NO LOG FILE! - )?\[\d{4}-\d{2}-\d{2}[^\]]*\b(ERROR|WARN)\]\s*/;
+
+const PLAYER_PATTERN = /^Player (connected|Spawned|disconnected): ([^,]+?),? xuid: (\d*)/;
+
+/**
+ * Parse a single console line into a typed event, or null for lines without one.
+ */
+export function parseServerLine(line: string): ParsedServerLine | null {
+  const isError = ERROR_PREFIX.test(line);
+  const message = line.replace(LOG_PREFIX, '').trim();
+
+  if (message.startsWith('Server started')) {
+    return { type: 'started' };
+  }
+
+  const level = message.match(/^Level Name: (.+)$/);
+  if (level) {
+    return { type: 'levelLoaded', level: { name: level[1] } };
+  }
+
+  const player = message.match(PLAYER_PATTERN);
+  if (player) {
+    const info = { name: player[2].trim(), xuid: player[3] };
+    switch (player[1]) {
+      case 'connected':
+        return { type: 'playerConnected', player: info };
+      case 'Spawned':
+        return { type: 'playerSpawned', player: info };
+      default:
+        return { type: 'playerDisconnected', player: info };
+    }
+  }
+
+  if (/^Data saved\.|^Saving\.\.\.\s*Done|^Changes to the level are resumed/.test(message)) {
+    return { type: 'worldSaved' };
+  }
+
+  // Content log output from behavior pack scripts
+  if (isError && /\[Scripting\]/.test(message)) {
+    return { type: 'scriptError', message: message.replace(/^\[Scripting\]\s*/, '') };
+  }
+
+  return null;
+}
+
+/**
+ * Splits a stream of output chunks into complete lines.
+ */
+export function createLineSplitter(onLine: (line: string) => void) {
+  let partialLine = '';
+  return (text: string): void => {
+    const lines = (partialLine + text).split(/\r?\n/);
+    partialLine = lines.pop() ?? '';
+    for (const line of lines) {
+      onLine(line);
+    }
+  };
+}
+
+/**
+ * Emit the typed event for a console line on an emitter, always emitting the raw line first.
+ */
+export function emitServerLine(emitter: { emit(event: string, ...args: any[]): boolean }, line: string): void {
+  emitter.emit('line', line);
+
+  const parsed = parseServerLine(line);
+  if (!parsed) return;
+
+  switch (parsed.type) {
+    case 'levelLoaded':
+      emitter.emit(parsed.type, parsed.level);
+      break;
+    case 'playerConnected':
+    case 'playerSpawned':
+    case 'playerDisconnected':
+      emitter.emit(parsed.type, parsed.player);
+      break;
+    case 'scriptError':
+      emitter.emit(parsed.type, { message: parsed.message });
+      break;
+    default:
+      emitter.emit(parsed.type);
+  }
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { ExternalServerEvents } from './server-events.ts';
+import { createServerLog } from './server-log.ts';
+
+describe('createServerLog', () => {
+  let logsPath: string;
+
+  beforeEach(() => {
+    logsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'server-log-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(logsPath, { recursive: true, force: true });
+  });
+
+  it('slices the lines between two marks', () => {
+    const events = new EventEmitter<ExternalServerEvents>();
+    const log = createServerLog(events, { logsPath: null });
+    events.emit('line', 'before');
+    const start = log.mark('start');
+    events.emit('line', '[2025-01-01 12:00:00:000 INFO] [Scripting] hello');
+    events.emit('line', 'Set the time to 0');
+    const end = log.mark('end');
+    events.emit('line', 'after');
+
+    const slice = log.slice(start, end);
+    assert.equal(slice.lines.length, 4);
+    assert.deepEqual(slice.lines.slice(1, 3), ['[2025-01-01 12:00:00:000 INFO] [Scripting] hello', 'Set the time to 0']);
+    assert.deepEqual(slice.scriptLines, ['[2025-01-01 12:00:00:000 INFO] [Scripting] hello']);
+    log.close();
+  });
+
+  it('keeps the log files of the newest runs only', () => {
+    const runs = ['2025-01-01T10-00-00-000Z', '2025-01-02T10-00-00-000Z', '2025-01-03T10-00-00-000Z'];
+    for (const run of runs) {
+      fs.writeFileSync(path.join(logsPath, `bds-19134-${run}.log`), '');
+    }
+    fs.writeFileSync(path.join(logsPath, `bds-19134-${runs[0]}.log.1`), '');
+    fs.writeFileSync(path.join(logsPath, `bds-19136-${runs[0]}.log`), '');
+    fs.writeFileSync(path.join(logsPath, 'notes.txt'), '');
+
+    const log = createServerLog(new EventEmitter<ExternalServerEvents>(), { logsPath, name: 'bds-19134', maxRuns: 2 });
+    log.close();
+    assert.deepEqual(fs.readdirSync(logsPath).sort(), [path.basename(log.path ?? ''), `bds-19134-${runs[2]}.log`, `bds-19136-${runs[0]}.log`, 'notes.txt'].sort());
+  });
+});
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EventEmitter } from 'events';
+import type { ExternalServerEvents } from './server-events.ts';
+
+// Lines kept in memory for slicing, about a few MB of console output
+const MAX_MEMORY_LINES = 20000;
+// Script output routed to the console by content-log-console-output-enabled
+const SCRIPT_LINE_PATTERN = /\[Scripting\]|\[Script\]|ContentLog|\[TEST_ERROR\]/i;
+// Timestamp and extension of a run's log file, rotated files end in .1, .2, ...
+const RUN_FILE_SUFFIX = /^-\d{4}-\d{2}-\d{2}T[\d-]+Z\.log(\.\d+)?$/;
+
+export interface ServerLogOptions {
+  /** Directory for log files, null keeps the log in memory only */
+  logsPath: string | null;
+  /** Prefix of the log file name (default: "server") */
+  name?: string;
+  /** Rotate when the current file reaches this size (default: 10 MB) */
+  maxBytes?: number;
+  /** Rotated files kept per run (default: 5) */
+  maxFiles?: number;
+  /** Runs whose log files are kept, the new one included; older runs of the same name are deleted (default: 20) */
+  maxRuns?: number;
+}
+
+export interface ServerLogSlice {
+  /** Console lines between the two marks */
+  lines: string[];
+  /** Script and content log output among those lines */
+  scriptLines: string[];
+}
+
+export interface ServerLog {
+  /** Current log file, null when logging to memory only */
+  readonly path: string | null;
+  /** Write a boundary line, returns a mark usable with slice() */
+  mark(label: string): number;
+  /** Lines written after `from` (and before `to`), as far as they are still in memory */
+  slice(from: number, to?: number): ServerLogSlice;
+  close(): void;
+}
+
+/**
+ * Delete the log files of all but the newest `keep` runs named `name`. Timestamps in the file names sort by time.
+ */
+function pruneRuns(logsPath: string, name: string, keep: number): void {
+  const runFiles = new Map<string, string[]>();
+  for (const file of fs.readdirSync(logsPath)) {
+    if (!file.startsWith(name) || !RUN_FILE_SUFFIX.test(file.slice(name.length))) continue;
+    const run = file.replace(/\.\d+$/, '');
+    runFiles.set(run, [...(runFiles.get(run) ?? []), file]);
+  }
+  const runs = [...runFiles.keys()].sort();
+  for (const run of runs.slice(0, Math.max(0, runs.length - keep))) {
+    for (const file of runFiles.get(run) ?? []) {
+      fs.rmSync(path.join(logsPath, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Write every console line of a server to a per-run log file, rotated by size.
+ * Recent lines are also kept in memory so tests can pull the slice they produced.
+ */
+export function createServerLog(events: EventEmitter<ExternalServerEvents>, options: ServerLogOptions): ServerLog {
+  const { logsPath, name = 'server', maxBytes = 10 * 1024 * 1024, maxFiles = 5, maxRuns = 20 } = options;
+
+  const memory: string[] = [];
+  // Sequence number of memory[0]
+  let firstSeq = 0;
+  let nextSeq = 0;
+
+  let filePath: string | null = null;
+  let fd: number | null = null;
+  let bytes = 0;
+
+  if (logsPath) {
+    fs.mkdirSync(logsPath, { recursive: true });
+    // Room for the new run
+    pruneRuns(logsPath, name, maxRuns - 1);
+    filePath = path.join(logsPath, `${name}-${new Date().toISOString().replace(/[:.]/g, '-')}.log`);
+    fd = fs.openSync(filePath, 'a');
+  }
+
+  function rotate(): void {
+    if (fd === null || !filePath) return;
+    fs.closeSync(fd);
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      const from = i === 1 ? filePath : `${filePath}.${i - 1}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${filePath}.${i}`);
+    }
+    fd = fs.openSync(filePath, 'w');
+    bytes = 0;
+  }
+
+  function write(line: string): number {
+    const seq = nextSeq++;
+    memory.push(line);
+    if (memory.length > MAX_MEMORY_LINES) {
+      memory.shift();
+      firstSeq++;
+    }
+
+    if (fd !== null) {
+      const data = `${line}\n`;
+      if (bytes + data.length > maxBytes) rotate();
+      fs.writeSync(fd, data);
+      bytes += data.length;
+    }
+    return seq;
+  }
+
+  const onLine = (line: string) => write(line);
+  events.on('line', onLine);
+
+  return {
+    get path() {
+      return filePath;
+    },
+
+    mark(label: string): number {
+      return write(`==== ${new Date().toISOString()} ${label} ====`);
+    },
+
+    slice(from: number, to = nextSeq): ServerLogSlice {
+      const lines = memory.slice(Math.max(0, from - firstSeq), Math.max(0, to - firstSeq + 1));
+      return { lines, scriptLines: lines.filter((line) => SCRIPT_LINE_PATTERN.test(line)) };
+    },
+
+    close(): void {
+      events.off('line', onLine);
+      if (fd !== null) {
+        fs.closeSync(fd);
+        fd = null;
+      }
+    },
+  };
+}
+
+/**
+ * Append a server log slice to an error's message, keeping the last `maxLines` console lines.
+ * The full slice is also available on `error.serverLog`.
+ */
+export function attachServerLog(error: unknown, slice: ServerLogSlice, logPath: string | null, maxLines = 200): void {
+  if (!(error instanceof Error)) return;
+
+  const shown = slice.lines.slice(-maxLines);
+  const sections = [
+    `--- server log${logPath ? ` (${logPath})` : ''}, last ${shown.length} of ${slice.lines.length} lines ---`,
+    ...shown,
+  ];
+  if (slice.scriptLines.length > 0) {
+    sections.push('--- script output ---', ...slice.scriptLines.slice(-maxLines));
+  }
+
+  const text = `\n\n${sections.join('\n')}`;
+  error.message += text;
+  // Test runners print the stack, which was formatted with the original message
+  if (error.stack) error.stack += text;
+  Object.assign(error, { serverLog: slice });
+}
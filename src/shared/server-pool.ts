@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { type ExternalServer, type ExternalServerOptions, ensureBDSInstalled, getWorkerId } from './external-server.ts';
+import { startServer } from './test-utils.ts';
+import { linkInstall, readInstalledVersion } from './bds-versions.ts';
+import { loadSettings } from './settings.ts';
+import { replaceWorld } from './world-snapshot.ts';
+import { type PoolLease, createLeasePool } from './lease-pool.ts';
+
+// Stand-in servers keep their world in memory, a snapshot taken after start is what they are reset to
+const BASELINE_SNAPSHOT = 'pool-baseline';
+
+export interface ServerPoolOptions extends ExternalServerOptions {
+  /** Number of warm servers kept by this process (default: 2) */
+  size?: number;
+  /** First port of the pool, each instance takes a port pair (default: 19134) */
+  basePort?: number;
+  /** Directory holding one BDS copy per instance (default: next to bdsPath) */
+  poolPath?: string;
+  /** Max time to wait for a free server in acquire() (default: 5 minutes) */
+  acquireTimeout?: number;
+}
+
+export type ServerLease = PoolLease<ExternalServer>;
+
+export interface ServerPool {
+  readonly size: number;
+  /** Lease a warm server, waiting for one to become free if all are in use */
+  acquire(timeout?: number): Promise<ServerLease>;
+  /** Run a function with a leased server and release it afterwards */
+  withLease<T>(fn: (server: ExternalServer) => Promise<T>): Promise<T>;
+  /** Stop every server in the pool; acquire() calls still waiting for a server reject, leased servers stop on release */
+  shutdown(): Promise<void>;
+}
+
+interface PoolSlot {
+  bdsPath: string;
+  port: number;
+}
+
+/**
+ * Get the port of a pooled instance.
+ * Pools of different workers never overlap: each worker owns `size` port pairs.
+ */
+export function getPoolPort(index: number, size: number, basePort = 19134): number {
+  return basePort + (getWorkerId() * size + index) * 2; // 19132-19133 reserved for LAN discovery
+}
+
+/**
+ * Start a pool of warm servers with isolated ports and installs.
+ * Servers are started in parallel and reset (stopped, world replaced, restarted) after each lease.
+ */
+export async function createServerPool(options?: ServerPoolOptions): Promise<ServerPool> {
+  const settings = loadSettings();
+  const { size = 2, basePort = 19134, acquireTimeout = 5 * 60 * 1000, poolPath: poolPathOption, ...serverOptions } = options ?? {};
+  const opts = {
+    bdsPath: settings.BDS_PATH,
+    version: settings.BDS_VERSION,
+    ...serverOptions,
+  };
+  const poolPath = poolPathOption ?? `${path.normalize(opts.bdsPath)}-pool`;
+  const workerId = getWorkerId();
+  const usesBds = (opts.backend ?? process.env.SERVER_BACKEND ?? 'bds') === 'bds';
+
+  if (usesBds) {
+    await ensureBDSInstalled(opts.version, opts.bdsPath);
+  }
+
+  async function startSlot(slot: PoolSlot): Promise<ExternalServer> {
+    const server = await startServer({
+      ...opts,
+      bdsPath: slot.bdsPath,
+      port: slot.port,
+      autoDownload: false,
+    });
+    if (!usesBds) {
+      await server.snapshot(BASELINE_SNAPSHOT);
+    }
+    return server;
+  }
+
+  function resetWorld(slot: PoolSlot): void {
+    // Without a template BDS generates a fresh world
+    replaceWorld(path.join(slot.bdsPath, 'worlds', opts.worldName ?? 'Flat'), opts.templateWorldPath);
+  }
+
+  async function resetSlot(slot: PoolSlot, server: ExternalServer | null): Promise<ExternalServer> {
+    if (!server) {
+      if (usesBds) resetWorld(slot);
+      return startSlot(slot);
+    }
+    if (usesBds) {
+      await server.restart(() => resetWorld(slot));
+    } else {
+      await server.restore(BASELINE_SNAPSHOT);
+    }
+    return server;
+  }
+
+  const slots: PoolSlot[] = [];
+  for (let index = 0; index < size; index++) {
+    const bdsPath = path.join(poolPath, `worker-${workerId}-${index}`);
+    // Server files are hard-linked, re-linked when the source install switched versions
+    if (usesBds && (!fs.existsSync(bdsPath) || readInstalledVersion(bdsPath) !== readInstalledVersion(opts.bdsPath))) {
+      console.log(`[Pool] Linking BDS into ${bdsPath}...`);
+      linkInstall(opts.bdsPath, bdsPath);
+    }
+    slots.push({ bdsPath, port: getPoolPort(index, size, basePort) });
+  }
+
+  const leases = createLeasePool<ExternalServer>(size, {
+    start: (index) => startSlot(slots[index]),
+    reset: (index, server) => resetSlot(slots[index], server),
+  });
+
+  async function shutdown(): Promise<void> {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    await leases.shutdown();
+  }
+
+  // Stop pooled servers when the test process is interrupted
+  const onSignal = (signal: NodeJS.Signals) => {
+    shutdown().finally(() => process.kill(process.pid, signal));
+  };
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+
+  const pool: ServerPool = {
+    size,
+
+    acquire: (timeout = acquireTimeout) => leases.acquire(timeout),
+
+    async withLease<T>(fn: (server: ExternalServer) => Promise<T>): Promise<T> {
+      const leased = await pool.acquire();
+      try {
+        return await fn(leased.server);
+      } finally {
+        await leased.release();
+      }
+    },
+
+    shutdown,
+  };
+
+  return pool;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ServerPropertiesError, parseServerProperties, updateServerPropertiesContent } from './server-properties.ts';
+
+const CONTENT = ['server-name=Dedicated Server', '# Allowed values: "survival", "creative", or "adventure"', 'gamemode=survival', '', 'future-setting=abc', ''].join('\n');
+
+describe('updateServerPropertiesContent', () => {
+  it('replaces values in place, keeping comments, order and unknown keys', () => {
+    const updated = updateServerPropertiesContent(CONTENT, { gamemode: 'creative', 'server-name': 'Test' });
+    assert.equal(updated, ['server-name=Test', '# Allowed values: "survival", "creative", or "adventure"', 'gamemode=creative', '', 'future-setting=abc', ''].join('\n'));
+  });
+
+  it('appends missing keys before a single trailing newline', () => {
+    const updated = updateServerPropertiesContent(CONTENT + '\n\n', { 'server-port': 19140, 'online-mode': false });
+    assert.ok(updated.endsWith('future-setting=abc\nserver-port=19140\nonline-mode=false\n'));
+  });
+
+  it('handles CRLF content', () => {
+    assert.equal(updateServerPropertiesContent('gamemode=survival\r\nmax-players=10\r\n', { 'max-players': 4 }), 'gamemode=survival\nmax-players=4\n');
+  });
+
+  it('skips undefined values', () => {
+    assert.equal(updateServerPropertiesContent(CONTENT, { gamemode: undefined }), CONTENT);
+  });
+
+  it('rejects invalid values without touching the content', () => {
+    assert.throws(() => updateServerPropertiesContent(CONTENT, { 'server-port': 70000 }), ServerPropertiesError);
+    assert.throws(() => updateServerPropertiesContent(CONTENT, { 'tick-distance': 4.5 }), /expected integer/);
+    assert.throws(() => updateServerPropertiesContent(CONTENT, { 'server-name': 'a\nb' }), /single-line/);
+    assert.throws(() => updateServerPropertiesContent(CONTENT, { 'no-such-key': true } as never), /unknown key/);
+  });
+});
+
+describe('parseServerProperties', () => {
+  it('types known keys and keeps unknown ones as strings', () => {
+    assert.deepEqual(parseServerProperties('online-mode=false\nserver-port=19132\nlevel-seed=\nfuture-setting=1\n'), {
+      'online-mode': false,
+      'server-port': 19132,
+      'level-seed': '',
+      'future-setting': '1',
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import * as fs from 'fs';
+
+/**
+ * Every key BDS reads from server.properties.
+ * Keys use the file's own kebab-case names so they match the BDS documentation.
+ */
+export interface ServerProperties {
+  'server-name': string;
+  gamemode: 'survival' | 'creative' | 'adventure';
+  'force-gamemode': boolean;
+  difficulty: 'peaceful' | 'easy' | 'normal' | 'hard';
+  'allow-cheats': boolean;
+  'max-players': number;
+  'online-mode': boolean;
+  'allow-list': boolean;
+  'server-port': number;
+  'server-portv6': number;
+  'enable-lan-visibility': boolean;
+  'view-distance': number;
+  'tick-distance': number;
+  'player-idle-timeout': number;
+  'max-threads': number;
+  'level-name': string;
+  'level-seed': string;
+  'level-type': 'DEFAULT' | 'FLAT' | 'LEGACY';
+  'default-player-permission-level': 'visitor' | 'member' | 'operator';
+  'op-permission-level': number;
+  'texturepack-required': boolean;
+  'content-log-file-enabled': boolean;
+  'content-log-level': 'verbose' | 'info' | 'warning' | 'error';
+  'content-log-console-output-enabled': boolean;
+  'compression-threshold': number;
+  'compression-algorithm': 'zlib' | 'snappy';
+  'server-authoritative-movement': 'client-auth' | 'server-auth' | 'server-auth-with-rewind';
+  'server-authoritative-movement-strict': boolean;
+  'server-authoritative-dismount-strict': boolean;
+  'server-authoritative-entity-interactions-strict': boolean;
+  'player-position-acceptance-threshold': number;
+  'player-movement-score-threshold': number;
+  'player-movement-action-direction-threshold': number;
+  'player-movement-distance-threshold': number;
+  'player-movement-duration-threshold-in-ms': number;
+  'correct-player-movement': boolean;
+  'server-authoritative-block-breaking': boolean;
+  'server-authoritative-block-breaking-pick-range-scalar': number;
+  'chat-restriction': 'None' | 'Dropped' | 'Disabled';
+  'disable-player-interaction': boolean;
+  'client-side-chunk-generation-enabled': boolean;
+  'block-network-ids-are-hashes': boolean;
+  'disable-persona': boolean;
+  'disable-custom-skins': boolean;
+  'server-build-radius-ratio': string;
+  'allow-outbound-script-debugging': boolean;
+  'allow-inbound-script-debugging': boolean;
+  'force-inbound-debug-port': number;
+  'script-debugger-auto-attach': 'disabled' | 'connect' | 'listen';
+  'script-debugger-auto-attach-connect-address': string;
+  'script-watchdog-enable': boolean;
+  'script-watchdog-enable-exception-handling': boolean;
+  'script-watchdog-enable-shutdown': boolean;
+  'script-watchdog-hang-exception': boolean;
+  'script-watchdog-hang-threshold': number;
+  'script-watchdog-spike-threshold': number;
+  'script-watchdog-slow-threshold': number;
+  'script-watchdog-memory-warning': number;
+  'script-watchdog-memory-limit': number;
+  'emit-server-telemetry': boolean;
+  'msa-gamertags-only': boolean;
+  'item-transaction-logging-enabled': boolean;
+}
+
+export type ServerPropertyKey = keyof ServerProperties;
+
+type PropertySpec =
+  | { type: 'boolean' }
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly string[] };
+
+const PORT: PropertySpec = { type: 'integer', min: 1, max: 65535 };
+const BOOLEAN: PropertySpec = { type: 'boolean' };
+const STRING: PropertySpec = { type: 'string' };
+const POSITIVE_INTEGER: PropertySpec = { type: 'integer', min: 0 };
+const POSITIVE_NUMBER: PropertySpec = { type: 'number', min: 0 };
+
+const PROPERTY_SPECS: Record<ServerPropertyKey, PropertySpec> = {
+  'server-name': STRING,
+  gamemode: { type: 'enum', values: ['survival', 'creative', 'adventure'] },
+  'force-gamemode': BOOLEAN,
+  difficulty: { type: 'enum', values: ['peaceful', 'easy', 'normal', 'hard'] },
+  'allow-cheats': BOOLEAN,
+  'max-players': { type: 'integer', min: 1 },
+  'online-mode': BOOLEAN,
+  'allow-list': BOOLEAN,
+  'server-port': PORT,
+  'server-portv6': PORT,
+  'enable-lan-visibility': BOOLEAN,
+  'view-distance': { type: 'integer', min: 5 },
+  'tick-distance': { type: 'integer', min: 4, max: 12 },
+  'player-idle-timeout': POSITIVE_INTEGER,
+  'max-threads': POSITIVE_INTEGER,
+  'level-name': STRING,
+  'level-seed': STRING,
+  'level-type': { type: 'enum', values: ['DEFAULT', 'FLAT', 'LEGACY'] },
+  'default-player-permission-level': { type: 'enum', values: ['visitor', 'member', 'operator'] },
+  'op-permission-level': { type: 'integer', min: 0, max: 4 },
+  'texturepack-required': BOOLEAN,
+  'content-log-file-enabled': BOOLEAN,
+  'content-log-level': { type: 'enum', values: ['verbose', 'info', 'warning', 'error'] },
+  'content-log-console-output-enabled': BOOLEAN,
+  'compression-threshold': { type: 'integer', min: 0, max: 65535 },
+  'compression-algorithm': { type: 'enum', values: ['zlib', 'snappy'] },
+  'server-authoritative-movement': { type: 'enum', values: ['client-auth', 'server-auth', 'server-auth-with-rewind'] },
+  'server-authoritative-movement-strict': BOOLEAN,
+  'server-authoritative-dismount-strict': BOOLEAN,
+  'server-authoritative-entity-interactions-strict': BOOLEAN,
+  'player-position-acceptance-threshold': POSITIVE_NUMBER,
+  'player-movement-score-threshold': POSITIVE_INTEGER,
+  'player-movement-action-direction-threshold': { type: 'number', min: 0, max: 1 },
+  'player-movement-distance-threshold': POSITIVE_NUMBER,
+  'player-movement-duration-threshold-in-ms': POSITIVE_INTEGER,
+  'correct-player-movement': BOOLEAN,
+  'server-authoritative-block-breaking': BOOLEAN,
+  'server-authoritative-block-breaking-pick-range-scalar': POSITIVE_NUMBER,
+  'chat-restriction': { type: 'enum', values: ['None', 'Dropped', 'Disabled'] },
+  'disable-player-interaction': BOOLEAN,
+  'client-side-chunk-generation-enabled': BOOLEAN,
+  'block-network-ids-are-hashes': BOOLEAN,
+  'disable-persona': BOOLEAN,
+  'disable-custom-skins': BOOLEAN,
+  'server-build-radius-ratio': STRING,
+  'allow-outbound-script-debugging': BOOLEAN,
+  'allow-inbound-script-debugging': BOOLEAN,
+  'force-inbound-debug-port': PORT,
+  'script-debugger-auto-attach': { type: 'enum', values: ['disabled', 'connect', 'listen'] },
+  'script-debugger-auto-attach-connect-address': STRING,
+  'script-watchdog-enable': BOOLEAN,
+  'script-watchdog-enable-exception-handling': BOOLEAN,
+  'script-watchdog-enable-shutdown': BOOLEAN,
+  'script-watchdog-hang-exception': BOOLEAN,
+  'script-watchdog-hang-threshold': POSITIVE_INTEGER,
+  'script-watchdog-spike-threshold': POSITIVE_INTEGER,
+  'script-watchdog-slow-threshold': POSITIVE_INTEGER,
+  'script-watchdog-memory-warning': POSITIVE_INTEGER,
+  'script-watchdog-memory-limit': POSITIVE_INTEGER,
+  'emit-server-telemetry': BOOLEAN,
+  'msa-gamertags-only': BOOLEAN,
+  'item-transaction-logging-enabled': BOOLEAN,
+};
+
+type PropertiesLine = { kind: 'property'; key: string; value: string } | { kind: 'other'; text: string };
+
+export class ServerPropertiesError extends Error {
+  readonly key: string;
+
+  constructor(key: string, message: string) {
+    super(`Invalid server.properties value for ${key}: ${message}`);
+    this.name = 'ServerPropertiesError';
+    this.key = key;
+  }
+}
+
+function isKnownKey(key: string): key is ServerPropertyKey {
+  return key in PROPERTY_SPECS;
+}
+
+/**
+ * Check a single value against its key's type and range, throwing ServerPropertiesError if invalid.
+ */
+export function validateServerProperty(key: string, value: unknown): void {
+  if (!isKnownKey(key)) {
+    throw new ServerPropertiesError(key, 'unknown key');
+  }
+
+  const spec = PROPERTY_SPECS[key];
+  switch (spec.type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') throw new ServerPropertiesError(key, `expected boolean, got ${JSON.stringify(value)}`);
+      break;
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        throw new ServerPropertiesError(key, `expected ${spec.type}, got ${JSON.stringify(value)}`);
+      }
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        throw new ServerPropertiesError(key, `${value} is outside ${spec.min ?? '-∞'}..${spec.max ?? '∞'}`);
+      }
+      break;
+    case 'enum':
+      if (!spec.values.includes(value as string)) {
+        throw new ServerPropertiesError(key, `expected one of ${spec.values.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string' || /[\r\n]/.test(value)) throw new ServerPropertiesError(key, `expected single-line string, got ${JSON.stringify(value)}`);
+      break;
+  }
+}
+
+/**
+ * Check every value of a partial properties object.
+ */
+export function validateServerProperties(properties: Partial<ServerProperties>): void {
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== undefined) validateServerProperty(key, value);
+  }
+}
+
+function parseValue(key: string, raw: string): unknown {
+  if (!isKnownKey(key)) return raw;
+  const spec = PROPERTY_SPECS[key];
+  if (spec.type === 'boolean') return raw === 'true';
+  if (spec.type === 'integer' || spec.type === 'number') return raw === '' ? undefined : Number(raw);
+  return raw;
+}
+
+function parseLines(content: string): PropertiesLine[] {
+  return content.split(/\r?\n/).map((text): PropertiesLine => {
+    const trimmed = text.trim();
+    const eqIndex = trimmed.indexOf('=');
+    if (!trimmed || trimmed.startsWith('#') || eqIndex === -1) {
+      return { kind: 'other', text };
+    }
+    return { kind: 'property', key: trimmed.slice(0, eqIndex).trim(), value: trimmed.slice(eqIndex + 1).trim() };
+  });
+}
+
+/**
+ * Parse server.properties content into a typed object.
+ * Unknown keys (e.g. from newer BDS versions) are kept as strings.
+ */
+export function parseServerProperties(content: string): Partial<ServerProperties> & Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const line of parseLines(content)) {
+    if (line.kind === 'property') {
+      properties[line.key] = parseValue(line.key, line.value);
+    }
+  }
+  return properties as Partial<ServerProperties>;
+}
+
+/**
+ * Apply updates to server.properties content, keeping comments, ordering and unknown keys.
+ * Keys missing from the content are appended at the end.
+ */
+export function updateServerPropertiesContent(content: string, updates: Partial<ServerProperties>): string {
+  validateServerProperties(updates);
+
+  const lines = parseLines(content);
+  const pending = new Map(Object.entries(updates).filter(([, value]) => value !== undefined));
+
+  for (const line of lines) {
+    if (line.kind === 'property' && pending.has(line.key)) {
+      line.value = String(pending.get(line.key));
+      pending.delete(line.key);
+    }
+  }
+
+  // Keep a single trailing newline after appended keys
+  while (lines.length > 0) {
+    const last = lines[lines.length - 1];
+    if (last.kind !== 'other' || last.text.trim() !== '') break;
+    lines.pop();
+  }
+  for (const [key, value] of pending) {
+    lines.push({ kind: 'property', key, value: String(value) });
+  }
+
+  return lines.map((line) => (line.kind === 'property' ? `${line.key}=${line.value}` : line.text)).join('\n') + '\n';
+}
+
+/**
+ * Read and parse a server.properties file.
+ */
+export function readServerProperties(propsPath: string): Partial<ServerProperties> & Record<string, unknown> {
+  if (!fs.existsSync(propsPath)) {
+    throw new Error(`server.properties not found at ${propsPath}. Is BDS installed correctly?`);
+  }
+  return parseServerProperties(fs.readFileSync(propsPath, 'utf8'));
+}
+
+/**
+ * Validate updates and write them to a server.properties file in place.
+ */
+export function writeServerProperties(propsPath: string, updates: Partial<ServerProperties>): void {
+  if (!fs.existsSync(propsPath)) {
+    throw new Error(`server.properties not found at ${propsPath}. Is BDS installed correctly?`);
+  }
+  const content = fs.readFileSync(propsPath, 'utf8');
+  fs.writeFileSync(propsPath, updateServerPropertiesContent(content, updates));
+}
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExternalServer } from './external-server.ts';
+import type { ServerCrashInfo, ServerRestartInfo } from './server-events.ts';
+
+export interface SupervisorOptions {
+  /** Max restarts within restartWindow before giving up (default: 5) */
+  maxRestarts?: number;
+  /** Window in ms in which crashes count towards maxRestarts (default: 10 minutes) */
+  restartWindow?: number;
+  /** Delay before the first restart, doubled for every crash in the window (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the backoff delay (default: 60000) */
+  maxDelay?: number;
+  /** Directory for crash logs, null to disable (default: <bdsPath>/crash-logs) */
+  crashLogPath?: string | null;
+}
+
+export interface ServerSupervisor {
+  /** Number of restarts in the current window */
+  readonly restarts: number;
+  /** Stop watching; a pending restart is cancelled */
+  stop(): void;
+}
+
+/**
+ * Write the crash details and the last console lines to a timestamped file.
+ */
+export function writeCrashLog(crashLogPath: string, crash: ServerCrashInfo): string {
+  fs.mkdirSync(crashLogPath, { recursive: true });
+  const timestamp = new Date().toISOString();
+  const filePath = path.join(crashLogPath, `crash-${timestamp.replace(/[:.]/g, '-')}.log`);
+  const header = [`Crashed at: ${timestamp}`, `Exit code: ${crash.code}`, `Signal: ${crash.signal}`, '', 'Last console lines:'];
+  fs.writeFileSync(filePath, [...header, ...crash.lastLines].join('\n') + '\n');
+  return filePath;
+}
+
+/**
+ * Watch a server for crashes and restart it on the same port and world with exponential backoff.
+ * Emits restarting/restarted on the server so bots can reconnect, and restartFailed when it gives up.
+ */
+export function superviseServer(server: ExternalServer, options: SupervisorOptions & { bdsPath: string }): ServerSupervisor {
+  const {
+    maxRestarts = 5,
+    restartWindow = 10 * 60 * 1000,
+    initialDelay = 1000,
+    maxDelay = 60000,
+    crashLogPath = path.join(options.bdsPath, 'crash-logs'),
+  } = options;
+
+  let crashTimes: number[] = [];
+  let stopped = false;
+  let restarting = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function scheduleRestart(crash: ServerCrashInfo, crashLog: string | null): void {
+    const now = Date.now();
+    crashTimes = crashTimes.filter((t) => now - t < restartWindow);
+    crashTimes.push(now);
+
+    const attempt = crashTimes.length;
+    if (attempt > maxRestarts) {
+      restarting = false;
+      const error = new Error(
+        `Server crashed ${attempt} times within ${restartWindow}ms (exit code ${crash.code}, signal ${crash.signal})`
+      );
+      console.error(`[Supervisor] ${error.message}, giving up`);
+      server.emit('restartFailed', { attempts: attempt - 1, error });
+      return;
+    }
+
+    const delay = Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+    const info: ServerRestartInfo = { attempt, delay, crash, crashLogPath: crashLog };
+    console.warn(`[Supervisor] Server crashed (exit code ${crash.code}), restarting in ${delay}ms (attempt ${attempt}/${maxRestarts})`);
+    server.emit('restarting', info);
+
+    restarting = true;
+    timer = setTimeout(async () => {
+      if (stopped) return;
+      try {
+        await server.restart();
+        restarting = false;
+        console.log(`[Supervisor] Server restarted on port ${server.port}`);
+        server.emit('restarted', info);
+      } catch (err) {
+        // A failed start counts as another crash
+        scheduleRestart({ code: null, signal: null, lastLines: [(err as Error).message] }, crashLog);
+      }
+    }, delay);
+  }
+
+  const onCrashed = (crash: ServerCrashInfo) => {
+    // Startup failures during a restart are handled by the pending attempt
+    if (stopped || restarting) return;
+    const crashLog = crashLogPath ? writeCrashLog(crashLogPath, crash) : null;
+    if (crashLog) {
+      console.warn(`[Supervisor] Crash log written to ${crashLog}`);
+    }
+    scheduleRestart(crash, crashLog);
+  };
+  server.on('crashed', onCrashed);
+
+  return {
+    get restarts() {
+      return crashTimes.length;
+    },
+
+    stop(): void {
+      stopped = true;
+      clearTimeout(timer);
+      server.off('crashed', onCrashed);
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import { fileURLToPath } from "url";
 
@@ -9,11 +10,14 @@ const ENV_PATH = path.join(PROJECT_ROOT, ".env");
 export interface Settings {
   BDS_PATH: string;
   BDS_VERSION: string;
+  /** Shared cache of downloaded BDS versions, one directory per version */
+  BDS_CACHE_PATH: string;
 }
 
 const DEFAULT_SETTINGS: Settings = {
   BDS_PATH: path.join(PROJECT_ROOT, "bedrock-server"),
   BDS_VERSION: "1.21.130",
+  BDS_CACHE_PATH: os.platform() === "win32" ? "c:/apps/bds-cache" : path.join(os.homedir(), "apps", "bds-cache"),
 };
 
 export function loadSettings(): Settings {
@@ -46,6 +50,7 @@ export function loadSettings(): Settings {
   // Also check process.env (takes precedence)
   if (process.env.BDS_PATH) settings.BDS_PATH = process.env.BDS_PATH;
   if (process.env.BDS_VERSION) settings.BDS_VERSION = process.env.BDS_VERSION;
+  if (process.env.BDS_CACHE_PATH) settings.BDS_CACHE_PATH = process.env.BDS_CACHE_PATH;
 
   return settings;
 }
@@ -58,6 +63,7 @@ export function saveSettings(settings: Partial<Settings>): void {
     "# Bedrock Demo Settings",
     `BDS_PATH="${merged.BDS_PATH}"`,
     `BDS_VERSION="${merged.BDS_VERSION}"`,
+    `BDS_CACHE_PATH="${merged.BDS_CACHE_PATH}"`,
   ];
 
   fs.writeFileSync(ENV_PATH, lines.join("\n") + "\n");
@@ -0,0 +1,1099 @@
+import { Server, type Player, type Version } from 'bedrock-protocol';
+import PrismarineChunk from 'prismarine-chunk';
+import PrismarineRegistry from 'prismarine-registry';
+import { Vec3 } from 'vec3';
+import { EventEmitter } from 'events';
+import { loadSettings } from './settings.ts';
+import type { ExternalServer, ExternalServerOptions } from './external-server.ts';
+import { CommandError, type CommandResult, parseCommandOutput } from './command-result.ts';
+import { type ExternalServerEvents, emitServerLine } from './server-events.ts';
+import { createServerLog } from './server-log.ts';
+import { onPacket } from './protocol-events.ts';
+import { DEFAULT_GAME_RULES, type GameRule, type GameRules, TIME_OF_DAY_TICKS, type Weather, applyWorldSettings } from './world-rules.ts';
+
+// Max buffer entries to prevent memory leak (same limit as the BDS backend)
+const MAX_OUTPUT_BUFFER_SIZE = 100;
+
+const GAMEMODES = ['survival', 'creative', 'adventure', 'spectator'] as const;
+type Gamemode = (typeof GAMEMODES)[number];
+
+export interface FlatLayer {
+  block: string;
+  /** Number of layers of this block, stacked from the bottom of the world */
+  height: number;
+}
+
+/**
+ * Same layers BDS uses for a default flat world: grass on top at y=-61.
+ */
+export const DEFAULT_FLAT_LAYERS: FlatLayer[] = [
+  { block: 'bedrock', height: 1 },
+  { block: 'dirt', height: 2 },
+  { block: 'grass_block', height: 1 },
+];
+
+export interface StandInServerOptions extends ExternalServerOptions {
+  /** Layers of the flat world, bottom to top (default: BDS flat world) */
+  flatLayers?: FlatLayer[];
+  /** Chunk radius sent around each player (default: 4) */
+  viewDistance?: number;
+}
+
+interface StandInPlayer {
+  client: Player;
+  name: string;
+  xuid: string;
+  runtimeId: number;
+  position: Vec3;
+  gamemode: Gamemode;
+  inventory: Array<{ name: string; count: number } | null>;
+  sentChunks: Set<string>;
+}
+
+interface CommandOutcome {
+  success: boolean;
+  message: string;
+}
+
+type BlockStates = Record<string, string | number | boolean>;
+
+interface BlockEdit {
+  pos: Vec3;
+  stateId: number;
+}
+
+/**
+ * What BDS keeps in the world directory: the blocks (here, the edits on top of the flat layers)
+ * and level.dat's game rules, time and weather. Survives restarts, replaced by restore().
+ */
+interface StandInWorld {
+  /** Edits per chunk, keyed by position */
+  blockEdits: Map<string, Map<string, BlockEdit>>;
+  gameRules: GameRules;
+  time: number;
+  weather: Weather;
+}
+
+/** The parts of prismarine-registry's bedrock data the stand-in reads */
+interface StandInRegistry {
+  blocksByName: Record<string, { defaultState: number; minStateId: number; maxStateId: number } | undefined>;
+  blocksByStateId: Record<number, { name: string } | undefined>;
+  blockStates?: Record<number, { states: Record<string, { type: string; value: string | number }> } | undefined>;
+  itemsByName: Record<string, { id: number; stackSize?: number } | undefined>;
+  itemsArray: Array<{ id: number; name: string }>;
+}
+
+/** The parts of prismarine-chunk's bedrock ChunkColumn the stand-in uses */
+interface ChunkColumn {
+  sectionsLen: number;
+  getBlockStateId(pos: Vec3): number;
+  setBlockStateId(pos: Vec3, stateId: number): void;
+  networkEncodeNoCache(): Promise<Buffer>;
+}
+
+type ChunkColumnConstructor = new (options: { x: number; z: number; minCY: number; maxCY: number }) => ChunkColumn;
+
+interface RpcRequest {
+  id: string;
+  method: string;
+  params?: unknown;
+}
+
+const MIN_Y = -64;
+const MIN_SECTION_Y = -4;
+const MAX_SECTION_Y = 20;
+const INVENTORY_SIZE = 36;
+// Same part size as the test_helper pack, see src/behavior-packs/test-helper/scripts/main.ts
+const MAX_RPC_PART_LENGTH = 1000;
+const MAX_REGION_BLOCKS = 32768;
+
+function chunkKey(x: number, z: number): string {
+  return `${x},${z}`;
+}
+
+function cloneWorld(world: StandInWorld): StandInWorld {
+  return {
+    blockEdits: new Map([...world.blockEdits].map(([key, edits]) => [key, new Map(edits)])),
+    gameRules: { ...world.gameRules },
+    time: world.time,
+    weather: world.weather,
+  };
+}
+
+function toLocal(pos: Vec3): Vec3 {
+  return new Vec3(((pos.x % 16) + 16) % 16, pos.y, ((pos.z % 16) + 16) % 16);
+}
+
+function toDisplayName(name: string): string {
+  return name
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+/**
+ * Parse a BDS block state list such as `["growth"=7,"top_slot_bit"=true]`.
+ */
+export function parseBlockStates(input: string | undefined): BlockStates {
+  const states: BlockStates = {};
+  if (!input) return states;
+
+  const body = input.trim().replace(/^\[/, '').replace(/\]$/, '');
+  for (const pair of body.split(',')) {
+    const [rawKey, rawValue] = pair.split(/[=:]/);
+    if (!rawKey || rawValue === undefined) continue;
+    const key = rawKey.trim().replace(/^"|"$/g, '');
+    const value = rawValue.trim();
+    if (value === 'true' || value === 'false') {
+      states[key] = value === 'true';
+    } else if (/^-?\d+$/.test(value)) {
+      states[key] = parseInt(value, 10);
+    } else {
+      states[key] = value.replace(/^"|"$/g, '');
+    }
+  }
+  return states;
+}
+
+/**
+ * Split a console command into arguments, keeping bracketed block states
+ * and selector arguments together.
+ */
+function tokenizeCommand(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of command.trim()) {
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ' ' && depth === 0) {
+      if (current) tokens.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Start an in-process stand-in for BDS built on bedrock-protocol's Server.
+ * Serves a flat world, accepts offline logins and understands the console
+ * commands used by the test helpers (give, tp, setblock, fill, clear, gamemode, kill, gamerule, time, weather),
+ * plus the test_helper pack's block, region, inventory and player state RPCs.
+ */
+export async function startStandInServer(options?: StandInServerOptions): Promise<ExternalServer> {
+  const settings = loadSettings();
+  const opts = {
+    version: settings.BDS_VERSION,
+    port: 19134, // Use non-default port (19132-19133 reserved for LAN discovery)
+    worldName: 'Flat',
+    gamemode: 'survival' as Gamemode,
+    flatLayers: DEFAULT_FLAT_LAYERS,
+    viewDistance: 4,
+    ...options,
+  };
+
+  const prismarineRegistry = PrismarineRegistry(`bedrock_${opts.version}`);
+  const registry = prismarineRegistry as unknown as StandInRegistry;
+  const ChunkColumn = PrismarineChunk(prismarineRegistry) as unknown as ChunkColumnConstructor;
+
+  const surfaceY = MIN_Y + opts.flatLayers.reduce((sum, layer) => sum + layer.height, 0);
+  const spawn = new Vec3(0, surfaceY, 0);
+
+  // Built from the flat layers and the world's block edits, dropped on restart
+  const chunks = new Map<string, ChunkColumn>();
+  // Only stored and sent to clients, the stand-in doesn't tick
+  let world: StandInWorld = { blockEdits: new Map(), gameRules: { ...DEFAULT_GAME_RULES }, time: 0, weather: 'clear' };
+  const snapshots = new Map<string, StandInWorld>();
+  const players = new Map<string, StandInPlayer>();
+  let nextRuntimeId = 1;
+  // Without an operators list every player is an operator, like a local world with cheats on
+  const operators = opts.operators ? new Set(opts.operators) : null;
+  const allowlist = opts.allowlist ? new Set(opts.allowlist) : null;
+
+  const events = new EventEmitter<ExternalServerEvents>();
+  // Memory only unless a logs directory is given, there is no install directory to log into
+  const log = createServerLog(events, { logsPath: opts.logsPath || null, name: `stand-in-${opts.port}` });
+
+  // Track console output the same way the BDS backend does
+  const outputBuffer: string[] = [];
+  const outputListeners: Array<{
+    pattern: RegExp;
+    resolve: (match: string) => void;
+  }> = [];
+
+  function writeOutput(text: string): void {
+    for (const line of text.split('\n').filter(Boolean)) {
+      emitServerLine(events, line);
+    }
+
+    let consumed = false;
+    for (let i = outputListeners.length - 1; i >= 0; i--) {
+      const listener = outputListeners[i];
+      if (listener.pattern.test(text)) {
+        outputListeners.splice(i, 1);
+        listener.resolve(text);
+        consumed = true;
+      }
+    }
+
+    if (!consumed) {
+      outputBuffer.push(text);
+      if (outputBuffer.length > MAX_OUTPUT_BUFFER_SIZE) {
+        outputBuffer.shift();
+      }
+    }
+  }
+
+  function getStateId(name: string, states: BlockStates = {}): number | null {
+    const block = registry.blocksByName[name.replace(/^minecraft:/, '')];
+    if (!block) return null;
+    if (Object.keys(states).length === 0) return block.defaultState;
+
+    for (let id = block.minStateId; id <= block.maxStateId; id++) {
+      const blockStates = registry.blockStates?.[id]?.states ?? {};
+      const matches = Object.entries(states).every(([key, value]) => {
+        const state = blockStates[key];
+        if (!state) return false;
+        // Booleans are stored as bytes in the bedrock palette
+        return state.value === value || state.value === Number(value);
+      });
+      if (matches) return id;
+    }
+    return null;
+  }
+
+  function getColumn(chunkX: number, chunkZ: number): ChunkColumn {
+    const key = chunkKey(chunkX, chunkZ);
+    let column = chunks.get(key);
+    if (column) return column;
+
+    column = new ChunkColumn({ x: chunkX, z: chunkZ, minCY: MIN_SECTION_Y, maxCY: MAX_SECTION_Y });
+    let y = MIN_Y;
+    for (const layer of opts.flatLayers) {
+      const stateId = getStateId(layer.block);
+      if (stateId === null) throw new Error(`Unknown block in flat layers: ${layer.block}`);
+      for (let i = 0; i < layer.height; i++, y++) {
+        for (let x = 0; x < 16; x++) {
+          for (let z = 0; z < 16; z++) {
+            column.setBlockStateId(new Vec3(x, y, z), stateId);
+          }
+        }
+      }
+    }
+    for (const edit of world.blockEdits.get(key)?.values() ?? []) {
+      column.setBlockStateId(toLocal(edit.pos), edit.stateId);
+    }
+    chunks.set(key, column);
+    return column;
+  }
+
+  function getBlockStateId(pos: Vec3): number {
+    return getColumn(Math.floor(pos.x / 16), Math.floor(pos.z / 16)).getBlockStateId(toLocal(pos));
+  }
+
+  function setBlockStateId(pos: Vec3, stateId: number): void {
+    const key = chunkKey(Math.floor(pos.x / 16), Math.floor(pos.z / 16));
+    getColumn(Math.floor(pos.x / 16), Math.floor(pos.z / 16)).setBlockStateId(toLocal(pos), stateId);
+
+    if (!world.blockEdits.has(key)) world.blockEdits.set(key, new Map());
+    world.blockEdits.get(key)!.set(pos.toString(), { pos: pos.clone(), stateId });
+
+    for (const player of players.values()) {
+      player.client.queue('update_block', {
+        position: { x: pos.x, y: pos.y, z: pos.z },
+        block_runtime_id: stateId,
+        flags: { neighbors: true, network: true },
+        layer: 0,
+      });
+    }
+  }
+
+  async function sendChunksAround(player: StandInPlayer): Promise<void> {
+    const centerX = Math.floor(player.position.x / 16);
+    const centerZ = Math.floor(player.position.z / 16);
+    const radius = opts.viewDistance;
+
+    player.client.queue('network_chunk_publisher_update', {
+      coordinates: { x: Math.floor(player.position.x), y: Math.floor(player.position.y), z: Math.floor(player.position.z) },
+      radius: radius * 16,
+      saved_chunks: [],
+    });
+
+    for (let x = centerX - radius; x <= centerX + radius; x++) {
+      for (let z = centerZ - radius; z <= centerZ + radius; z++) {
+        const key = chunkKey(x, z);
+        if (player.sentChunks.has(key)) continue;
+        player.sentChunks.add(key);
+
+        const column = getColumn(x, z);
+        const payload = await column.networkEncodeNoCache();
+        player.client.queue('level_chunk', {
+          x,
+          z,
+          dimension: 0,
+          sub_chunk_count: column.sectionsLen,
+          cache_enabled: false,
+          blobs: [],
+          payload,
+        });
+      }
+    }
+  }
+
+  function toNetworkItem(item: { name: string; count: number } | null): object {
+    const type = item ? registry.itemsByName[item.name] : null;
+    if (!item || !type) {
+      return { network_id: 0 };
+    }
+    return {
+      network_id: type.id,
+      count: item.count,
+      metadata: 0,
+      has_stack_id: true,
+      stack_id: 0,
+      block_runtime_id: 0,
+      extra: { has_nbt: 'false', can_place_on: [], can_destroy: [] },
+    };
+  }
+
+  function sendInventory(player: StandInPlayer): void {
+    player.client.queue('inventory_content', {
+      window_id: 'inventory',
+      input: player.inventory.map(toNetworkItem),
+      container: { container_id: 'anvil_input' },
+      storage_item: { network_id: 0 },
+    });
+  }
+
+  function resolvePlayers(selector: string | undefined, source?: StandInPlayer): StandInPlayer[] {
+    if (!selector) return source ? [source] : [];
+    if (selector === '@s') return source ? [source] : [];
+    if (selector.startsWith('@a') || selector.startsWith('@e')) return [...players.values()];
+    if (selector.startsWith('@p') || selector.startsWith('@r')) return [...players.values()].slice(0, 1);
+    const player = players.get(selector.replace(/^"|"$/g, ''));
+    return player ? [player] : [];
+  }
+
+  function parseCoordinate(value: string | undefined, origin: number): number {
+    if (value === undefined) throw new Error('Syntax error: missing coordinate');
+    if (value.startsWith('~')) {
+      return origin + (value.length > 1 ? Number(value.slice(1)) : 0);
+    }
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) throw new Error(`Syntax error: Unexpected "${value}"`);
+    return parsed;
+  }
+
+  function parsePosition(args: string[], origin: Vec3): Vec3 {
+    return new Vec3(parseCoordinate(args[0], origin.x), parseCoordinate(args[1], origin.y), parseCoordinate(args[2], origin.z));
+  }
+
+  function sendWeather(player: StandInPlayer): void {
+    const position = { x: 0, y: 0, z: 0 };
+    const { weather } = world;
+    player.client.queue('level_event', { event: weather === 'clear' ? 'stop_rain' : 'start_rain', position, data: weather === 'clear' ? 0 : 65535 });
+    player.client.queue('level_event', { event: weather === 'thunder' ? 'start_thunder' : 'stop_thunder', position, data: weather === 'thunder' ? 65535 : 0 });
+  }
+
+  function describeBlock(pos: Vec3): { name: string; states: BlockStates } {
+    const stateId = getBlockStateId(pos);
+    const states: BlockStates = {};
+    for (const [key, state] of Object.entries(registry.blockStates?.[stateId]?.states ?? {})) {
+      // Bytes in the palette are booleans to scripts
+      states[key] = state.type === 'byte' ? Boolean(state.value) : state.value;
+    }
+    return { name: (registry.blocksByStateId[stateId]?.name ?? 'air').replace(/^minecraft:/, ''), states };
+  }
+
+  function findPlayer(params: unknown): StandInPlayer {
+    const name = typeof params === 'object' && params !== null && 'player' in params && typeof params.player === 'string' ? params.player : '';
+    const player = name ? players.get(name) : players.values().next().value;
+    if (!player) {
+      throw new Error(name ? `Player not found: ${name}` : 'No players online');
+    }
+    return player;
+  }
+
+  function toPosition(value: unknown): Vec3 {
+    const { x, y, z } = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    if (typeof x !== 'number' || typeof y !== 'number' || typeof z !== 'number') {
+      throw new Error(`Invalid position: ${JSON.stringify(value)}`);
+    }
+    return new Vec3(x, y, z).floored();
+  }
+
+  /**
+   * The test_helper handlers the stand-in can answer from its own state (see src/behavior-packs/test-helper/scripts/handlers.ts).
+   * Entities and containers don't exist here, those methods are reported as unknown.
+   */
+  function callScriptHandler(method: string, params: unknown): unknown {
+    switch (method) {
+      case 'ping':
+        return undefined;
+      case 'inventory':
+        return findPlayer(params).inventory.flatMap((item, slot) => (item ? [{ slot, name: item.name, count: item.count }] : []));
+      case 'state': {
+        const player = findPlayer(params);
+        const { x, y, z } = player.position;
+        return { name: player.name, position: { x, y, z }, health: 20, maxHealth: 20, gamemode: player.gamemode, dimension: 'overworld' };
+      }
+      case 'block': {
+        const position = toPosition(params);
+        return { position: { x: position.x, y: position.y, z: position.z }, ...describeBlock(position) };
+      }
+      case 'region': {
+        const { from, to } = (typeof params === 'object' && params !== null ? params : {}) as Record<string, unknown>;
+        const a = toPosition(from);
+        const b = toPosition(to);
+        const min = new Vec3(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.min(a.z, b.z));
+        const max = new Vec3(Math.max(a.x, b.x), Math.max(a.y, b.y), Math.max(a.z, b.z));
+        const volume = (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+        if (volume > MAX_REGION_BLOCKS) {
+          throw new Error(`Region has ${volume} blocks, the limit is ${MAX_REGION_BLOCKS}`);
+        }
+        const palette: Array<{ name: string; states: BlockStates }> = [];
+        const paletteKeys = new Map<string, number>();
+        const indices: number[] = [];
+        for (let x = min.x; x <= max.x; x++) {
+          for (let y = min.y; y <= max.y; y++) {
+            for (let z = min.z; z <= max.z; z++) {
+              const info = describeBlock(new Vec3(x, y, z));
+              const key = JSON.stringify(info);
+              let index = paletteKeys.get(key);
+              if (index === undefined) {
+                index = palette.push(info) - 1;
+                paletteKeys.set(key, index);
+              }
+              indices.push(index);
+            }
+          }
+        }
+        return { from: { x: min.x, y: min.y, z: min.z }, to: { x: max.x, y: max.y, z: max.z }, palette, indices };
+      }
+      case 'clear': {
+        const player = findPlayer(params);
+        player.inventory = new Array(INVENTORY_SIZE).fill(null);
+        sendInventory(player);
+        return undefined;
+      }
+      default:
+        throw Object.assign(new Error(`Unknown method: ${method} (not supported by the stand-in server)`), { name: 'UnknownMethod' });
+    }
+  }
+
+  /**
+   * Answer a `scriptevent test:rpc` request with `[RPC:<id>:<part>/<total>]` lines, like the test_helper pack.
+   */
+  function handleScriptRpc(message: string): void {
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(message);
+    } catch {
+      writeOutput(`[TEST_ERROR]Malformed RPC request: ${message}\n`);
+      return;
+    }
+
+    let response: { ok: true; result: unknown } | { ok: false; error: { name: string; message: string } };
+    try {
+      response = { ok: true, result: callScriptHandler(request.method, request.params ?? {}) ?? null };
+    } catch (err) {
+      response = { ok: false, error: { name: (err as Error).name, message: (err as Error).message } };
+    }
+
+    const payload = JSON.stringify(response);
+    const total = Math.max(1, Math.ceil(payload.length / MAX_RPC_PART_LENGTH));
+    for (let part = 0; part < total; part++) {
+      writeOutput(`[RPC:${request.id}:${part + 1}/${total}]${payload.slice(part * MAX_RPC_PART_LENGTH, (part + 1) * MAX_RPC_PART_LENGTH)}\n`);
+    }
+  }
+
+  function runCommand(command: string, source?: StandInPlayer): CommandOutcome {
+    const [name, ...args] = tokenizeCommand(command.replace(/^\//, ''));
+    const origin = source?.position ?? spawn;
+    const noTargets = { success: false, message: 'No targets matched selector' };
+
+    switch (name) {
+      case 'give': {
+        const targets = resolvePlayers(args[0], source);
+        const itemName = args[1]?.replace(/^minecraft:/, '');
+        const count = args[2] ? parseInt(args[2], 10) : 1;
+        if (!itemName || !registry.itemsByName[itemName]) {
+          return { success: false, message: `Syntax error: Unexpected "${args[1]}"` };
+        }
+        if (targets.length === 0) return noTargets;
+        const stackSize = registry.itemsByName[itemName]?.stackSize ?? 64;
+        for (const player of targets) {
+          let remaining = count;
+          for (let slot = 0; slot < INVENTORY_SIZE && remaining > 0; slot++) {
+            const existing = player.inventory[slot];
+            if (existing && existing.name === itemName && existing.count < stackSize) {
+              const added = Math.min(stackSize - existing.count, remaining);
+              existing.count += added;
+              remaining -= added;
+            } else if (!existing) {
+              const added = Math.min(stackSize, remaining);
+              player.inventory[slot] = { name: itemName, count: added };
+              remaining -= added;
+            }
+          }
+          sendInventory(player);
+        }
+        return { success: true, message: `Gave ${toDisplayName(itemName)} * ${count} to ${targets.map((p) => p.name).join(', ')}` };
+      }
+
+      case 'tp':
+      case 'teleport': {
+        // "tp x y z" teleports the source, "tp <target> x y z" teleports the target
+        const hasTarget = args.length >= 4 || (args.length === 1 && Number.isNaN(Number(args[0])));
+        const targets = hasTarget ? resolvePlayers(args[0], source) : resolvePlayers(undefined, source);
+        if (targets.length === 0) return noTargets;
+        const destination = parsePosition(hasTarget ? args.slice(1) : args, origin);
+        for (const player of targets) {
+          player.position = destination.clone();
+          player.client.queue('move_player', {
+            runtime_id: player.runtimeId,
+            position: { x: destination.x, y: destination.y + 1.62, z: destination.z },
+            pitch: 0,
+            yaw: 0,
+            head_yaw: 0,
+            mode: 'teleport',
+            on_ground: false,
+            ridden_runtime_id: 0,
+            teleport: { cause: 'command', source_entity_type: 0 },
+            tick: 0n,
+          });
+          void sendChunksAround(player);
+        }
+        return {
+          success: true,
+          message: `Teleported ${targets.map((p) => p.name).join(', ')} to ${destination.x}, ${destination.y}, ${destination.z}`,
+        };
+      }
+
+      case 'setblock': {
+        const pos = parsePosition(args, origin).floored();
+        const stateId = getStateId(args[3] ?? '', parseBlockStates(args[4]));
+        if (stateId === null) return { success: false, message: `Unknown block type: ${args[3]}` };
+        setBlockStateId(pos, stateId);
+        return { success: true, message: 'Block placed' };
+      }
+
+      case 'fill': {
+        const from = parsePosition(args.slice(0, 3), origin).floored();
+        const to = parsePosition(args.slice(3, 6), origin).floored();
+        const blockStates = args[7]?.startsWith('[') ? args[7] : undefined;
+        const stateId = getStateId(args[6] ?? '', parseBlockStates(blockStates));
+        if (stateId === null) return { success: false, message: `Unknown block type: ${args[6]}` };
+
+        const modeIndex = blockStates ? 8 : 7;
+        const replaceFilter = args[modeIndex] === 'replace' && args[modeIndex + 1] ? getStateId(args[modeIndex + 1]) : null;
+
+        let filled = 0;
+        for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+          for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+            for (let z = Math.min(from.z, to.z); z <= Math.max(from.z, to.z); z++) {
+              const pos = new Vec3(x, y, z);
+              if (replaceFilter !== null && getBlockStateId(pos) !== replaceFilter) continue;
+              setBlockStateId(pos, stateId);
+              filled++;
+            }
+          }
+        }
+        return { success: true, message: `${filled} blocks filled` };
+      }
+
+      case 'clear': {
+        const targets = resolvePlayers(args[0], source);
+        if (targets.length === 0) return noTargets;
+        let removed = 0;
+        for (const player of targets) {
+          removed += player.inventory.reduce((sum, item) => sum + (item?.count ?? 0), 0);
+          player.inventory = new Array(INVENTORY_SIZE).fill(null);
+          sendInventory(player);
+        }
+        return { success: true, message: `Cleared the inventory of ${targets.map((p) => p.name).join(', ')}, removing ${removed} items` };
+      }
+
+      case 'gamemode': {
+        const mode = GAMEMODES.find((m) => m === args[0] || m.charAt(0) === args[0] || String(GAMEMODES.indexOf(m)) === args[0]);
+        if (!mode) return { success: false, message: `Syntax error: Unexpected "${args[0]}"` };
+        const targets = resolvePlayers(args[1], source);
+        if (targets.length === 0) return noTargets;
+        for (const player of targets) {
+          player.gamemode = mode;
+          player.client.queue('set_player_game_type', { gamemode: mode });
+        }
+        return { success: true, message: `Set ${targets.map((p) => p.name).join(', ')}'s game mode to ${toDisplayName(mode)} Mode` };
+      }
+
+      case 'kill': {
+        // The stand-in only knows about players, entity selectors match nothing else
+        const selector = args[0] ?? '@s';
+        const typeMatch = selector.match(/type=!?([\w:]+)/);
+        const targets = typeMatch && typeMatch[1].replace(/^minecraft:/, '') !== 'player' ? [] : resolvePlayers(selector, source);
+        if (targets.length === 0) return noTargets;
+        for (const player of targets) {
+          player.client.queue('set_health', { health: 0 });
+        }
+        return { success: true, message: `Killed ${targets.map((p) => p.name).join(', ')}` };
+      }
+
+      case 'op':
+      case 'deop': {
+        const targets = resolvePlayers(args[0], source);
+        if (targets.length === 0) return noTargets;
+        for (const player of targets) {
+          if (name === 'op') operators?.add(player.name);
+          else operators?.delete(player.name);
+          player.client.queue('set_commands_enabled', { enabled: name === 'op' || operators === null });
+        }
+        const names = targets.map((p) => p.name).join(', ');
+        return { success: true, message: name === 'op' ? `Opped: ${names}` : `De-opped: ${names}` };
+      }
+
+      case 'allowlist': {
+        const player = args[1]?.replace(/^"|"$/g, '');
+        if ((args[0] !== 'add' && args[0] !== 'remove') || !player) {
+          return { success: false, message: `Syntax error: Unexpected "${args[0] ?? ''}"` };
+        }
+        if (!allowlist) {
+          return { success: false, message: 'Allowlist is not enabled' };
+        }
+        if (args[0] === 'add') {
+          allowlist.add(player);
+          return { success: true, message: 'Player added to allowlist' };
+        }
+        allowlist.delete(player);
+        return { success: true, message: 'Player removed from allowlist' };
+      }
+
+      case 'gamerule': {
+        const { gameRules } = world;
+        const rule = (Object.keys(gameRules) as GameRule[]).find((r) => r.toLowerCase() === args[0]?.toLowerCase());
+        if (!rule) return { success: false, message: `Syntax error: Unexpected "${args[0] ?? ''}"` };
+        if (args[1] === undefined) {
+          return { success: true, message: `${rule.toLowerCase()} = ${gameRules[rule]}` };
+        }
+        const value = typeof gameRules[rule] === 'boolean' ? (args[1] === 'true' ? true : args[1] === 'false' ? false : undefined) : Number(args[1]);
+        if (value === undefined || Number.isNaN(value)) return { success: false, message: `Syntax error: Unexpected "${args[1]}"` };
+        Object.assign(gameRules, { [rule]: value });
+        return { success: true, message: `Game rule ${rule.toLowerCase()} has been updated to ${value}` };
+      }
+
+      case 'time': {
+        if (args[0] === 'query') {
+          const { time } = world;
+          const values = { daytime: time % 24000, gametime: time, day: Math.floor(time / 24000) };
+          const query = args[1] as keyof typeof values;
+          if (!(query in values)) return { success: false, message: `Syntax error: Unexpected "${args[1] ?? ''}"` };
+          return { success: true, message: `${query.charAt(0).toUpperCase()}${query.slice(1)} is ${values[query]}` };
+        }
+        const ticks = args[1] && args[1] in TIME_OF_DAY_TICKS ? TIME_OF_DAY_TICKS[args[1] as keyof typeof TIME_OF_DAY_TICKS] : Number(args[1]);
+        if ((args[0] !== 'set' && args[0] !== 'add') || Number.isNaN(ticks)) {
+          return { success: false, message: `Syntax error: Unexpected "${args[1] ?? args[0] ?? ''}"` };
+        }
+        // Setting the time keeps the day count, like BDS
+        world.time = args[0] === 'add' ? world.time + ticks : world.time - (world.time % 24000) + ticks;
+        for (const player of players.values()) {
+          player.client.queue('set_time', { time: world.time });
+        }
+        return { success: true, message: args[0] === 'add' ? `Added ${ticks} to the time` : `Set the time to ${ticks}` };
+      }
+
+      case 'weather': {
+        if (args[0] !== 'clear' && args[0] !== 'rain' && args[0] !== 'thunder') {
+          return { success: false, message: `Syntax error: Unexpected "${args[0] ?? ''}"` };
+        }
+        world.weather = args[0];
+        for (const player of players.values()) {
+          sendWeather(player);
+        }
+        const messages = { clear: 'Changing to clear weather', rain: 'Changing to rainy weather', thunder: 'Changing to rain and thunder' };
+        return { success: true, message: messages[world.weather] };
+      }
+
+      case 'scriptevent': {
+        // The message is everything after the event id, JSON included
+        const message = command.replace(/^\/?scriptevent\s+\S+\s?/, '');
+        if (args[0] === 'test:rpc') {
+          handleScriptRpc(message);
+        } else if (args[0]?.startsWith('test:')) {
+          writeOutput(`[TEST_ERROR]The stand-in server only answers test:rpc events, not ${args[0]}\n`);
+        }
+        // BDS prints nothing for a script event itself
+        return { success: true, message: '' };
+      }
+
+      default:
+        return { success: false, message: `Unknown command: ${name}. Please check that the command exists and that you have permission to use it.` };
+    }
+  }
+
+  function executeConsoleCommand(command: string, source?: StandInPlayer): CommandOutcome {
+    let outcome: CommandOutcome;
+    try {
+      outcome = runCommand(command, source);
+    } catch (err) {
+      outcome = { success: false, message: (err as Error).message };
+    }
+    writeOutput(outcome.message + '\n');
+    return outcome;
+  }
+
+  function startGame(player: StandInPlayer): void {
+    player.client.queue('start_game', {
+      entity_id: BigInt(player.runtimeId),
+      runtime_entity_id: BigInt(player.runtimeId),
+      player_gamemode: player.gamemode,
+      player_position: { x: spawn.x, y: spawn.y + 1.62, z: spawn.z },
+      rotation: { x: 0, z: 0 },
+      seed: 0n,
+      biome_type: 0,
+      biome_name: 'plains',
+      dimension: 'overworld',
+      generator: 2, // flat
+      world_gamemode: player.gamemode,
+      hardcore: false,
+      difficulty: 0,
+      spawn_position: { x: spawn.x, y: spawn.y, z: spawn.z },
+      achievements_disabled: true,
+      editor_world_type: 'not_editor',
+      created_in_editor: false,
+      exported_from_editor: false,
+      day_cycle_stop_time: 0,
+      edu_offer: 0,
+      edu_features_enabled: false,
+      edu_product_uuid: '',
+      rain_level: world.weather === 'clear' ? 0 : 1,
+      lightning_level: world.weather === 'thunder' ? 1 : 0,
+      has_confirmed_platform_locked_content: false,
+      is_multiplayer: true,
+      broadcast_to_lan: false,
+      xbox_live_broadcast_mode: 0,
+      platform_broadcast_mode: 0,
+      enable_commands: true,
+      is_texturepacks_required: false,
+      gamerules: [],
+      experiments: [],
+      experiments_previously_used: false,
+      bonus_chest: false,
+      map_enabled: false,
+      permission_level: operators && !operators.has(player.name) ? 'member' : 'operator',
+      server_chunk_tick_range: opts.viewDistance,
+      has_locked_behavior_pack: false,
+      has_locked_resource_pack: false,
+      is_from_locked_world_template: false,
+      msa_gamertags_only: false,
+      is_from_world_template: false,
+      is_world_template_option_locked: false,
+      only_spawn_v1_villagers: false,
+      persona_disabled: false,
+      custom_skins_disabled: false,
+      emote_chat_muted: false,
+      game_version: '*',
+      limited_world_width: 16,
+      limited_world_length: 16,
+      is_new_nether: true,
+      edu_resource_uri: { button_name: '', link_uri: '' },
+      experimental_gameplay_override: false,
+      chat_restriction_level: 'none',
+      disable_player_interactions: false,
+      server_editor_connection_policy: 0,
+      allow_anonymous_block_drops_in_editor_worlds: false,
+      level_id: opts.worldName,
+      world_name: opts.worldName,
+      premium_world_template_id: '00000000-0000-0000-0000-000000000000',
+      is_trial: false,
+      rewind_history_size: 0,
+      server_authoritative_block_breaking: false,
+      current_tick: 0n,
+      enchantment_seed: 0,
+      block_properties: [],
+      multiplayer_correlation_id: '',
+      server_authoritative_inventory: true,
+      engine: 'stand-in',
+      property_data: { type: 'compound', name: '', value: {} },
+      block_pallette_checksum: 0n,
+      world_template_id: '00000000-0000-0000-0000-000000000000',
+      client_side_generation: false,
+      block_network_ids_are_hashes: false,
+      server_controlled_sound: false,
+      has_server_join_info: false,
+    });
+
+    player.client.queue('item_registry', {
+      itemstates: registry.itemsArray.map((item) => ({
+        name: `minecraft:${item.name}`,
+        runtime_id: item.id,
+        component_based: false,
+        version: 'legacy',
+        nbt: { type: 'compound', name: '', value: {} },
+      })),
+    });
+  }
+
+  function handleClient(client: Player): void {
+    let player: StandInPlayer | null = null;
+
+    client.on('join', () => {
+      const profile = client.profile ?? { name: `Player${nextRuntimeId}`, xuid: '', uuid: '' };
+      player = {
+        client,
+        name: profile.name,
+        xuid: profile.xuid ?? '',
+        runtimeId: nextRuntimeId++,
+        position: spawn.clone(),
+        gamemode: opts.gamemode,
+        inventory: new Array(INVENTORY_SIZE).fill(null),
+        sentChunks: new Set(),
+      };
+      if (allowlist && !allowlist.has(player.name)) {
+        client.disconnect('You are not invited to this server.');
+        player = null;
+        return;
+      }
+      players.set(player.name, player);
+      writeOutput(`Player connected: ${player.name}, xuid: ${player.xuid}\n`);
+
+      client.write('resource_packs_info', {
+        must_accept: false,
+        has_addons: false,
+        has_scripts: false,
+        disable_vibrant_visuals: false,
+        world_template: { uuid: '00000000-0000-0000-0000-000000000000', version: '' },
+        texture_packs: [],
+      });
+    });
+
+    onPacket<{ response_status: string }>(client, 'resource_pack_client_response', async (packet) => {
+      if (!player) return;
+      if (packet.response_status === 'have_all_packs') {
+        client.write('resource_pack_stack', {
+          must_accept: false,
+          resource_packs: [],
+          game_version: '*',
+          experiments: [],
+          experiments_previously_used: false,
+          has_editor_packs: false,
+        });
+      } else if (packet.response_status === 'completed') {
+        startGame(player);
+        await sendChunksAround(player);
+        sendInventory(player);
+        client.queue('set_time', { time: world.time });
+        sendWeather(player);
+        client.write('play_status', { status: 'player_spawn' });
+      }
+    });
+
+    onPacket<{ chunk_radius: number }>(client, 'request_chunk_radius', (packet) => {
+      client.queue('chunk_radius_update', { chunk_radius: Math.min(packet.chunk_radius, opts.viewDistance) });
+    });
+
+    onPacket(client, 'set_local_player_as_initialized', () => {
+      if (!player) return;
+      // Mirror the BDS console line so output-based helpers work on both backends
+      writeOutput(`Player Spawned: ${player.name} xuid: ${player.xuid}\n`);
+    });
+
+    onPacket<{ position: { x: number; y: number; z: number } }>(client, 'player_auth_input', (packet) => {
+      if (!player) return;
+      const previousChunk = chunkKey(Math.floor(player.position.x / 16), Math.floor(player.position.z / 16));
+      player.position = new Vec3(packet.position.x, packet.position.y - 1.62, packet.position.z);
+      if (chunkKey(Math.floor(player.position.x / 16), Math.floor(player.position.z / 16)) !== previousChunk) {
+        void sendChunksAround(player);
+      }
+    });
+
+    onPacket<{ command: string }>(client, 'command_request', (packet) => {
+      if (!player) return;
+      const outcome =
+        operators && !operators.has(player.name)
+          ? { success: false, message: `Unknown command: ${tokenizeCommand(packet.command.replace(/^\//, ''))[0]}. Please check that the command exists and that you have permission to use it.` }
+          : executeConsoleCommand(packet.command, player);
+      client.queue('text', {
+        needs_translation: false,
+        category: 'message_only',
+        type: 'system',
+        message: outcome.success ? outcome.message : `§c${outcome.message}`,
+        xuid: '',
+        platform_chat_id: '',
+        has_filtered_message: false,
+      });
+    });
+
+    onPacket<{ type: string }>(client, 'text', (packet) => {
+      if (packet.type !== 'chat') return;
+      for (const other of players.values()) {
+        if (other.client !== client) other.client.queue('text', packet);
+      }
+    });
+
+    client.on('close', () => {
+      if (!player) return;
+      players.delete(player.name);
+      writeOutput(`Player disconnected: ${player.name}, xuid: ${player.xuid}\n`);
+    });
+  }
+
+  const server = new Server({
+    host: '0.0.0.0',
+    port: opts.port,
+    // bedrock-protocol's Version union lags behind BDS releases
+    version: opts.version as Version,
+    offline: true,
+    motd: { motd: 'Stand-in Server', levelName: opts.worldName },
+  });
+  server.on('connect', handleClient);
+
+  const timeout = opts.timeout ?? 60000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      server.listen(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Stand-in server did not start within ${timeout}ms`)), timeout);
+      }),
+    ]);
+  } catch (err) {
+    // Nobody gets a server to stop, close its log file here
+    log.close();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+  writeOutput('Server started.\n');
+
+  const standInServer: ExternalServer = Object.assign(events, {
+    host: '127.0.0.1',
+    port: opts.port,
+    version: opts.version,
+    log,
+
+    async stop(): Promise<void> {
+      for (const player of players.values()) {
+        player.client.disconnect('Server stopped');
+      }
+      players.clear();
+      await server.close();
+      log.close();
+    },
+
+    /**
+     * Like a BDS restart, the world (blocks, game rules, time, weather) is kept and players are disconnected.
+     * beforeStart can replace the world, as restore() does; chunks are rebuilt from it afterwards.
+     */
+    async restart(beforeStart?: () => void | Promise<void>): Promise<void> {
+      for (const player of players.values()) {
+        player.client.disconnect('Server restarting');
+      }
+      players.clear();
+      await beforeStart?.();
+      chunks.clear();
+      writeOutput('Server started.\n');
+      if (opts.worldSettings) {
+        await applyWorldSettings(standInServer, opts.worldSettings);
+      }
+    },
+
+    async snapshot(name: string): Promise<string> {
+      snapshots.set(name, cloneWorld(world));
+      return `stand-in:${name}`;
+    },
+
+    async restore(name: string): Promise<void> {
+      const snapshot = snapshots.get(name);
+      if (!snapshot) {
+        throw new Error(`Snapshot "${name}" not found`);
+      }
+      await standInServer.restart(() => {
+        world = cloneWorld(snapshot);
+      });
+    },
+
+    async op(player: string): Promise<void> {
+      await standInServer.executeCommand(`op "${player}"`);
+    },
+
+    async deop(player: string): Promise<void> {
+      await standInServer.executeCommand(`deop "${player}"`);
+    },
+
+    async allowlistAdd(player: string): Promise<void> {
+      await standInServer.executeCommand(`allowlist add "${player}"`);
+    },
+
+    async allowlistRemove(player: string): Promise<void> {
+      await standInServer.executeCommand(`allowlist remove "${player}"`);
+    },
+
+    // Permissions are part of start_game, an operator can send commands as soon as it spawned
+    waitForOperator(player: string, timeout = 10000): Promise<void> {
+      if (operators && !operators.has(player)) {
+        return Promise.reject(new Error(`${player} is not an operator`));
+      }
+      if (players.has(player)) return Promise.resolve();
+
+      return new Promise<void>((resolve, reject) => {
+        const onSpawned = (spawned: { name: string }) => {
+          if (spawned.name !== player) return;
+          clearTimeout(timer);
+          events.off('playerSpawned', onSpawned);
+          resolve();
+        };
+        const timer = setTimeout(() => {
+          events.off('playerSpawned', onSpawned);
+          reject(new Error(`${player} was not opped within ${timeout}ms`));
+        }, timeout);
+        events.on('playerSpawned', onSpawned);
+      });
+    },
+
+    async sendCommand(command: string): Promise<void> {
+      executeConsoleCommand(command);
+    },
+
+    async executeCommand(command: string): Promise<CommandResult> {
+      const outcome = executeConsoleCommand(command);
+      // The stand-in knows whether the command worked, the message only decides the failure kind and count
+      const result = parseCommandOutput(command, outcome.message);
+      if (!outcome.success) {
+        throw new CommandError(result.success ? { command, success: false, message: result.message, failure: 'failed' } : result);
+      }
+      return result.success ? result : { command, success: true, message: result.message };
+    },
+
+    async waitForOutput(pattern: RegExp, timeout = 5000): Promise<string> {
+      for (let i = 0; i < outputBuffer.length; i++) {
+        if (pattern.test(outputBuffer[i])) {
+          const match = outputBuffer[i];
+          outputBuffer.splice(i, 1);
+          return match;
+        }
+      }
+
+      return new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          const idx = outputListeners.findIndex((l) => l.resolve === onMatch);
+          if (idx !== -1) outputListeners.splice(idx, 1);
+          reject(new Error(`Timeout waiting for pattern: ${pattern}`));
+        }, timeout);
+
+        const onMatch = (match: string) => {
+          clearTimeout(timer);
+          resolve(match);
+        };
+        outputListeners.push({ pattern, resolve: onMatch });
+      });
+    },
+  });
+
+  if (opts.worldSettings) {
+    await applyWorldSettings(standInServer, opts.worldSettings);
+  }
+
+  return standInServer;
+}
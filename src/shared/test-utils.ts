@@ -1,21 +1,66 @@
 import mineflayer, { type Bot, type BotOptions } from 'mineflayer';
+import { Vec3 } from 'vec3';
 import { type ExternalServer, type ExternalServerOptions, startExternalServer } from './external-server.ts';
+import { startStandInServer } from './stand-in-server.ts';
+import { CommandError } from './command-result.ts';
+import type { ServerPlayerInfo } from './server-events.ts';
+import { callServerScript } from './script-rpc.ts';
+import { attachServerLog } from './server-log.ts';
+import { waitForEvent } from './waiters.ts';
+
+/**
+ * Start a server using the requested backend.
+ * Falls back to the SERVER_BACKEND environment variable, then to BDS.
+ */
+export async function startServer(options?: ExternalServerOptions): Promise<ExternalServer> {
+  const backend = options?.backend ?? process.env.SERVER_BACKEND ?? 'bds';
+  if (backend === 'stand-in') {
+    return startStandInServer(options);
+  }
+  if (backend !== 'bds') {
+    throw new Error(`Unknown server backend: ${backend}`);
+  }
+  return startExternalServer(options);
+}
 
 /**
  * Run a test function with a managed external server instance.
  * Server is automatically started before and stopped after the test.
+ * A failing test's error gets the server log written during the test appended.
  */
-export async function withExternalServer(testFn: (server: ExternalServer) => Promise<void>, options?: ExternalServerOptions): Promise<void> {
-  const server = await startExternalServer(options);
+export async function withExternalServer(
+  testFn: (server: ExternalServer) => Promise<void>,
+  options?: ExternalServerOptions,
+  label = 'test'
+): Promise<void> {
+  const server = await startServer(options);
   try {
-    await testFn(server);
+    await withServerLog(server, label, () => testFn(server));
   } finally {
     await server.stop();
   }
 }
 
+/**
+ * Mark the start and end of a test in the server log and attach the log slice to its error on failure.
+ * Use directly for servers shared between tests, e.g. from a server pool.
+ */
+export async function withServerLog<T>(server: ExternalServer, label: string, fn: () => Promise<T>): Promise<T> {
+  const start = server.log.mark(`TEST START ${label}`);
+  try {
+    const result = await fn();
+    server.log.mark(`TEST PASSED ${label}`);
+    return result;
+  } catch (err) {
+    const end = server.log.mark(`TEST FAILED ${label}`);
+    attachServerLog(err, server.log.slice(start, end), server.log.path);
+    throw err;
+  }
+}
+
 /**
  * Connect a mineflayer bot to the external server.
+ * Works with both the BDS and stand-in backends.
  */
 export async function connectBotToExternalServer(server: ExternalServer, botOptions?: Partial<BotOptions>): Promise<Bot> {
   const bot = mineflayer.createBot({
@@ -58,8 +103,29 @@ export async function waitForBotSpawn(bot: Bot, timeout = 30000): Promise<void>
   });
 }
 
+/**
+ * Wait for the server to report that a player has spawned in the world.
+ */
+export async function waitForServerPlayerSpawn(server: ExternalServer, username: string, timeout = 30000): Promise<ServerPlayerInfo> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      server.off('playerSpawned', onSpawned);
+      reject(new Error(`Timeout waiting for ${username} to spawn on the server`));
+    }, timeout);
+
+    const onSpawned = (player: ServerPlayerInfo) => {
+      if (player.name !== username) return;
+      clearTimeout(timer);
+      server.off('playerSpawned', onSpawned);
+      resolve(player);
+    };
+    server.on('playerSpawned', onSpawned);
+  });
+}
+
 /**
  * Wait for a condition to become true.
+ * Prefer the event-driven waiters in waiters.ts where an event exists.
  */
 export async function waitFor(condition: () => boolean, timeout = 10000, interval = 100): Promise<void> {
   const start = Date.now();
@@ -84,24 +150,31 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Give an item to a player.
+ * Rejects with CommandError if the item is unknown or the player is not online.
  */
 export async function giveItem(server: ExternalServer, player: string, item: string, count = 1): Promise<void> {
-  await server.sendCommand(`give ${player} ${item} ${count}`);
+  await server.executeCommand(`give ${player} ${item} ${count}`);
 }
 
 /**
  * Clear a player's inventory.
+ * An already empty inventory is not treated as a failure.
  */
 export async function clearInventory(server: ExternalServer, player: string): Promise<void> {
-  await server.sendCommand(`clear ${player}`);
+  try {
+    await server.executeCommand(`clear ${player}`);
+  } catch (err) {
+    if (!(err instanceof CommandError && /no items to remove/i.test(err.result.message))) {
+      throw err;
+    }
+  }
 }
 
 /**
  * Teleport a player to a location.
  */
 export async function teleportPlayer(server: ExternalServer, player: string, x: number, y: number, z: number): Promise<void> {
-  await server.sendCommand(`tp ${player} ${x} ${y} ${z}`);
-  await sleep(100);
+  await server.executeCommand(`tp ${player} ${x} ${y} ${z}`);
 }
 
 /**
@@ -115,19 +188,9 @@ export async function teleportPlayerAndSync(
   z: number,
   timeout = 5000
 ): Promise<void> {
-  const positionPromise = new Promise<void>((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error('Timeout waiting for position sync after teleport'));
-    }, timeout);
+  const positionPromise = waitForEvent(bot, 'forcedMove', undefined, { timeout });
 
-    const onForcedMove = () => {
-      clearTimeout(timer);
-      resolve();
-    };
-    bot.once('forcedMove', onForcedMove);
-  });
-
-  await server.sendCommand(`tp ${bot.username} ${x} ${y} ${z}`);
+  await server.executeCommand(`tp ${bot.username} ${x} ${y} ${z}`);
   await positionPromise;
   await sleep(50);
 }
@@ -136,30 +199,528 @@ export async function teleportPlayerAndSync(
  * Set a player's game mode.
  */
 export async function setGamemode(server: ExternalServer, player: string, mode: 'survival' | 'creative' | 'adventure' | 'spectator'): Promise<void> {
-  await server.sendCommand(`gamemode ${mode} ${player}`);
-  await sleep(100);
+  await server.executeCommand(`gamemode ${mode} ${player}`);
 }
 
 /**
  * Set a block at a specific location.
  */
 export async function setBlock(server: ExternalServer, x: number, y: number, z: number, block: string): Promise<void> {
-  await server.sendCommand(`setblock ${x} ${y} ${z} ${block}`);
-  await sleep(100);
+  await server.executeCommand(`setblock ${x} ${y} ${z} ${block}`);
 }
 
 /**
  * Fill a region with a block.
+ * Resolves with the number of blocks the server reports as filled.
  */
-export async function fill(server: ExternalServer, x1: number, y1: number, z1: number, x2: number, y2: number, z2: number, block: string): Promise<void> {
-  await server.sendCommand(`fill ${x1} ${y1} ${z1} ${x2} ${y2} ${z2} ${block}`);
-  await sleep(100);
+export async function fill(server: ExternalServer, x1: number, y1: number, z1: number, x2: number, y2: number, z2: number, block: string): Promise<number> {
+  const result = await server.executeCommand(`fill ${x1} ${y1} ${z1} ${x2} ${y2} ${z2} ${block}`);
+  return result.count ?? 0;
 }
 
 /**
  * Kill all entities of a type.
+ * Matching no entities is not treated as a failure.
  */
 export async function killEntities(server: ExternalServer, entityType: string): Promise<void> {
-  await server.sendCommand(`kill @e[type=${entityType}]`);
-  await sleep(100);
+  try {
+    await server.executeCommand(`kill @e[type=${entityType}]`);
+  } catch (err) {
+    if (!(err instanceof CommandError && err.kind === 'no-targets')) {
+      throw err;
+    }
+  }
+}
+
+// ============================================================================
+// Server State Verification - Query server state via behavior pack
+// Requires test_helper behavior pack to be installed, calls go through callServerScript
+// ============================================================================
+
+export interface ServerInventoryItem {
+  slot: number;
+  name: string;
+  count: number;
+}
+
+export interface ServerPlayerState {
+  name: string;
+  position: { x: number; y: number; z: number };
+  health: number;
+  maxHealth: number;
+  gamemode: string;
+  dimension: string;
+}
+
+export interface ServerBlockInventory {
+  position: { x: number; y: number; z: number };
+  items: ServerInventoryItem[];
+}
+
+export interface InventoryDiff {
+  matches: boolean;
+  clientOnly: ServerInventoryItem[];
+  serverOnly: ServerInventoryItem[];
+  countMismatches: Array<{
+    slot: number;
+    name: string;
+    clientCount: number;
+    serverCount: number;
+  }>;
+}
+
+/**
+ * Ping the behavior pack to verify it's loaded.
+ * Requires test_helper behavior pack.
+ */
+export async function pingBehaviorPack(server: ExternalServer): Promise<boolean> {
+  try {
+    await callServerScript(server, 'ping');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get server-side player inventory.
+ * Requires test_helper behavior pack.
+ */
+export async function getServerInventory(server: ExternalServer, playerName?: string): Promise<ServerInventoryItem[]> {
+  return callServerScript<ServerInventoryItem[]>(server, 'inventory', { player: playerName });
+}
+
+/**
+ * Get server-side player state.
+ * Requires test_helper behavior pack.
+ */
+export async function getServerPlayerState(server: ExternalServer, playerName?: string): Promise<ServerPlayerState> {
+  return callServerScript<ServerPlayerState>(server, 'state', { player: playerName });
+}
+
+/**
+ * Get server-side block inventory at position.
+ * Requires test_helper behavior pack.
+ */
+export async function getServerBlockInventory(server: ExternalServer, x: number, y: number, z: number): Promise<ServerBlockInventory> {
+  return callServerScript<ServerBlockInventory>(server, 'block_inventory', { x, y, z });
+}
+
+/**
+ * Clear player inventory via behavior pack.
+ * Requires test_helper behavior pack.
+ */
+export async function clearInventoryViaBehaviorPack(server: ExternalServer, playerName?: string): Promise<void> {
+  await callServerScript(server, 'clear', { player: playerName });
+}
+
+/**
+ * Compare client inventory state with server inventory state.
+ */
+export function compareInventory(clientItems: Array<{ slot: number; name: string; count: number }>, serverItems: ServerInventoryItem[]): InventoryDiff {
+  const clientMap = new Map(clientItems.map((i) => [`${i.slot}:${i.name}`, i]));
+  const serverMap = new Map(serverItems.map((i) => [`${i.slot}:${i.name}`, i]));
+
+  const clientOnly: ServerInventoryItem[] = [];
+  const serverOnly: ServerInventoryItem[] = [];
+  const countMismatches: InventoryDiff['countMismatches'] = [];
+
+  for (const [key, clientItem] of clientMap) {
+    const serverItem = serverMap.get(key);
+    if (!serverItem) {
+      clientOnly.push(clientItem);
+    } else if (clientItem.count !== serverItem.count) {
+      countMismatches.push({
+        slot: clientItem.slot,
+        name: clientItem.name,
+        clientCount: clientItem.count,
+        serverCount: serverItem.count,
+      });
+    }
+  }
+
+  for (const [key, serverItem] of serverMap) {
+    if (!clientMap.has(key)) {
+      serverOnly.push(serverItem);
+    }
+  }
+
+  return {
+    matches: clientOnly.length === 0 && serverOnly.length === 0 && countMismatches.length === 0,
+    clientOnly,
+    serverOnly,
+    countMismatches,
+  };
+}
+
+/**
+ * Assert that client and server inventory states match.
+ * Throws with detailed diff on mismatch.
+ */
+export function assertInventoryMatch(clientItems: Array<{ slot: number; name: string; count: number }>, serverItems: ServerInventoryItem[], message?: string): void {
+  const diff = compareInventory(clientItems, serverItems);
+  if (!diff.matches) {
+    const details = [
+      message || 'Inventory mismatch',
+      diff.clientOnly.length > 0 ? `Client only: ${JSON.stringify(diff.clientOnly)}` : '',
+      diff.serverOnly.length > 0 ? `Server only: ${JSON.stringify(diff.serverOnly)}` : '',
+      diff.countMismatches.length > 0 ? `Count mismatches: ${JSON.stringify(diff.countMismatches)}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    throw new Error(details);
+  }
+}
+
+/**
+ * Get client inventory as array of items for comparison.
+ * By default only includes main inventory slots (0-35) to match server inventory query.
+ * Set includeEquipment=true to also include armor (36-39) and offhand (41) slots.
+ */
+export function getClientInventory(bot: Bot, includeEquipment = false): Array<{ slot: number; name: string; count: number }> {
+  const items: Array<{ slot: number; name: string; count: number }> = [];
+  // Main inventory is slots 0-35
+  // Armor is 36-39 (head, chest, legs, feet)
+  // Slot 40 is crafting output
+  // Offhand is 41
+  const maxSlot = includeEquipment ? bot.inventory.slots.length : 36;
+  for (let i = 0; i < maxSlot; i++) {
+    const item = bot.inventory.slots[i];
+    if (item) {
+      items.push({
+        slot: i,
+        name: item.name,
+        count: item.count,
+      });
+    }
+  }
+  // If including equipment, also check offhand (slot 41)
+  if (includeEquipment && bot.inventory.slots[41]) {
+    const item = bot.inventory.slots[41];
+    items.push({
+      slot: 41,
+      name: item.name,
+      count: item.count,
+    });
+  }
+  return items;
+}
+
+// ============================================================================
+// Block Verification - Compare the bot's world view with the server
+// Requires test_helper behavior pack to be installed
+// ============================================================================
+
+export interface BlockPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type BlockStates = Record<string, string | number | boolean>;
+
+export interface ServerBlock {
+  position: BlockPosition;
+  name: string;
+  states: BlockStates;
+}
+
+export interface BlockMismatch {
+  position: BlockPosition;
+  /** Null when the bot has no chunk loaded at this position */
+  client: { name: string; states: BlockStates } | null;
+  server: { name: string; states: BlockStates };
+}
+
+export interface RegionDiff {
+  matches: boolean;
+  /** Number of blocks compared */
+  checked: number;
+  mismatches: BlockMismatch[];
+}
+
+export interface CompareRegionOptions {
+  /** Compare block names only, or skip the listed states (default: compare all shared states) */
+  ignoreStates?: boolean | string[];
+}
+
+/**
+ * Get a block's name and states on the server.
+ * Requires test_helper behavior pack.
+ */
+export async function getServerBlock(server: ExternalServer, x: number, y: number, z: number): Promise<ServerBlock> {
+  return callServerScript<ServerBlock>(server, 'block', { x, y, z });
+}
+
+/**
+ * Get every block of a cuboid region on the server (at most 32768 blocks).
+ * Requires test_helper behavior pack.
+ */
+export async function getServerRegion(server: ExternalServer, from: BlockPosition, to: BlockPosition): Promise<ServerBlock[]> {
+  const region = await callServerScript<{
+    from: BlockPosition;
+    to: BlockPosition;
+    palette: Array<{ name: string; states: BlockStates }>;
+    indices: number[];
+  }>(server, 'region', { from, to }, 15000);
+
+  // Same iteration order as the script: x, then y, then z
+  const blocks: ServerBlock[] = [];
+  let i = 0;
+  for (let x = region.from.x; x <= region.to.x; x++) {
+    for (let y = region.from.y; y <= region.to.y; y++) {
+      for (let z = region.from.z; z <= region.to.z; z++) {
+        blocks.push({ position: { x, y, z }, ...region.palette[region.indices[i++]] });
+      }
+    }
+  }
+  return blocks;
+}
+
+// Client and server disagree on how bit states are typed (true vs 1)
+function normalizeState(value: string | number | boolean): string {
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
+function statesMatch(client: BlockStates, server: BlockStates, ignore: string[]): boolean {
+  // Only states both sides know about are compared, versions differ in the states they expose
+  return Object.keys(server).every(
+    (key) => ignore.includes(key) || !(key in client) || normalizeState(client[key]) === normalizeState(server[key])
+  );
+}
+
+/**
+ * Diff the blocks the bot sees (bot.blockAt) against the server in a cuboid region.
+ * Requires test_helper behavior pack.
+ */
+export async function compareWorldRegion(
+  bot: Bot,
+  server: ExternalServer,
+  from: BlockPosition,
+  to: BlockPosition,
+  options: CompareRegionOptions = {}
+): Promise<RegionDiff> {
+  const serverBlocks = await getServerRegion(server, from, to);
+  const ignore = options.ignoreStates === true ? null : options.ignoreStates || [];
+
+  const mismatches: BlockMismatch[] = [];
+  for (const serverBlock of serverBlocks) {
+    const { position } = serverBlock;
+    const block = bot.blockAt(new Vec3(position.x, position.y, position.z));
+    const clientView = block ? { name: block.name, states: block.getProperties() as BlockStates } : null;
+    const serverView = { name: serverBlock.name, states: serverBlock.states };
+
+    if (!clientView || clientView.name !== serverView.name || (ignore && !statesMatch(clientView.states, serverView.states, ignore))) {
+      mismatches.push({ position, client: clientView, server: serverView });
+    }
+  }
+
+  return { matches: mismatches.length === 0, checked: serverBlocks.length, mismatches };
+}
+
+function formatBlock(block: { name: string; states: BlockStates } | null): string {
+  if (!block) return '<not loaded>';
+  const states = Object.entries(block.states).map(([key, value]) => `${key}=${value}`);
+  return states.length > 0 ? `${block.name}[${states.join(',')}]` : block.name;
+}
+
+/**
+ * Assert that the bot and the server agree on every block in a region.
+ * Throws with one line per mismatching block (first 20) on mismatch.
+ */
+export async function assertWorldRegionMatch(
+  bot: Bot,
+  server: ExternalServer,
+  from: BlockPosition,
+  to: BlockPosition,
+  message?: string,
+  options?: CompareRegionOptions
+): Promise<void> {
+  const diff = await compareWorldRegion(bot, server, from, to, options);
+  if (!diff.matches) {
+    const shown = diff.mismatches.slice(0, 20);
+    const details = [
+      `${message || 'World region mismatch'}: ${diff.mismatches.length} of ${diff.checked} blocks differ`,
+      ...shown.map((m) => `  (${m.position.x}, ${m.position.y}, ${m.position.z}) client ${formatBlock(m.client)} vs server ${formatBlock(m.server)}`),
+      diff.mismatches.length > shown.length ? `  ... and ${diff.mismatches.length - shown.length} more` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    throw new Error(details);
+  }
+}
+
+// ============================================================================
+// Entity Verification - Summon entities and compare them with bot.entities
+// Requires test_helper behavior pack to be installed
+// ============================================================================
+
+export interface ServerEntity {
+  /** Server-side unique id, not the runtime id the bot sees */
+  id: string;
+  type: string;
+  position: { x: number; y: number; z: number };
+  health?: number;
+  maxHealth?: number;
+  nameTag?: string;
+  /** Stack carried by item entities */
+  item?: { name: string; count: number };
+}
+
+export interface EntityQuery {
+  center: BlockPosition;
+  /** Search radius in blocks (default: 32) */
+  radius?: number;
+  type?: string;
+}
+
+export interface SummonOptions {
+  nameTag?: string;
+  /** Entity event triggered after spawning, e.g. minecraft:ageable_grow_up */
+  spawnEvent?: string;
+}
+
+export interface EntityMismatch {
+  type: string;
+  server: ServerEntity;
+  /** Nearest client entity of the same type, null when the bot has none */
+  client: { id: number; position: { x: number; y: number; z: number } } | null;
+  distance: number;
+}
+
+export interface EntityDiff {
+  matches: boolean;
+  /** Server entities with a client entity of the same type within the tolerance */
+  matched: number;
+  mismatches: EntityMismatch[];
+  /** Client entities in the queried area without a server counterpart */
+  extraOnClient: Array<{ id: number; type: string; position: { x: number; y: number; z: number } }>;
+}
+
+export interface CompareEntitiesOptions {
+  /** Max distance in blocks between the client and server position (default: 1) */
+  positionTolerance?: number;
+}
+
+/**
+ * Summon an entity and return it as the server sees it.
+ * Requires test_helper behavior pack.
+ */
+export async function summonEntity(server: ExternalServer, type: string, position: BlockPosition, options: SummonOptions = {}): Promise<ServerEntity> {
+  return callServerScript<ServerEntity>(server, 'summon', { type, ...position, ...options });
+}
+
+/**
+ * Drop an item entity at a position, e.g. to test item pickup.
+ * Requires test_helper behavior pack.
+ */
+export async function spawnItemEntity(server: ExternalServer, item: string, position: BlockPosition, count = 1): Promise<ServerEntity> {
+  return callServerScript<ServerEntity>(server, 'spawn_item', { item, count, ...position });
+}
+
+/**
+ * List entities within a radius on the server, players included.
+ * Requires test_helper behavior pack.
+ */
+export async function getServerEntities(server: ExternalServer, query: EntityQuery): Promise<ServerEntity[]> {
+  const { center, radius = 32, type } = query;
+  return callServerScript<ServerEntity[]>(server, 'entities', { ...center, radius, type });
+}
+
+function entityType(name: string | undefined): string {
+  return (name ?? 'unknown').replace(/^minecraft:/, '');
+}
+
+/**
+ * Pair server entities with bot.entities by type and nearest position.
+ * The ids differ between both sides (unique vs runtime id), so they are not compared.
+ */
+export function compareEntities(bot: Bot, serverEntities: ServerEntity[], query: EntityQuery, options: CompareEntitiesOptions = {}): EntityDiff {
+  const { positionTolerance = 1 } = options;
+  const { center, radius = 32, type } = query;
+  const centerVec = new Vec3(center.x, center.y, center.z);
+
+  const clients = Object.values<Bot['entity']>(bot.entities).filter(
+    (entity) =>
+      entity !== bot.entity &&
+      entity.position.distanceTo(centerVec) <= radius &&
+      (!type || entityType(entity.name) === entityType(type))
+  );
+  const unmatched = new Set(clients);
+
+  let matched = 0;
+  const mismatches: EntityMismatch[] = [];
+  for (const serverEntity of serverEntities) {
+    // The bot itself shows up in the server's list
+    if (serverEntity.type === 'player' && serverEntity.nameTag === bot.username) continue;
+
+    const serverPos = new Vec3(serverEntity.position.x, serverEntity.position.y, serverEntity.position.z);
+    let nearest: (typeof clients)[number] | null = null;
+    let distance = Infinity;
+    for (const client of unmatched) {
+      if (entityType(client.name) !== serverEntity.type) continue;
+      const d = client.position.distanceTo(serverPos);
+      if (d < distance) {
+        nearest = client;
+        distance = d;
+      }
+    }
+
+    if (nearest && distance <= positionTolerance) {
+      unmatched.delete(nearest);
+      matched++;
+    } else {
+      mismatches.push({
+        type: serverEntity.type,
+        server: serverEntity,
+        client: nearest ? { id: nearest.id, position: { x: nearest.position.x, y: nearest.position.y, z: nearest.position.z } } : null,
+        distance,
+      });
+    }
+  }
+
+  const extraOnClient = [...unmatched].map((entity) => ({
+    id: entity.id,
+    type: entityType(entity.name),
+    position: { x: entity.position.x, y: entity.position.y, z: entity.position.z },
+  }));
+
+  return { matches: mismatches.length === 0 && extraOnClient.length === 0, matched, mismatches, extraOnClient };
+}
+
+function formatPosition(pos: { x: number; y: number; z: number }): string {
+  return `(${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)})`;
+}
+
+/**
+ * Assert that the bot sees the same entities as the server in an area.
+ * Throws with one line per mismatch (first 20) on mismatch.
+ */
+export async function assertEntitiesMatch(
+  bot: Bot,
+  server: ExternalServer,
+  query: EntityQuery,
+  message?: string,
+  options?: CompareEntitiesOptions
+): Promise<void> {
+  const diff = compareEntities(bot, await getServerEntities(server, query), query, options);
+  if (!diff.matches) {
+    const lines = [
+      ...diff.mismatches.map(
+        (m) =>
+          `  ${m.type} at ${formatPosition(m.server.position)}: ${m.client ? `client nearest at ${formatPosition(m.client.position)} (${m.distance.toFixed(2)} blocks)` : 'missing on client'}`
+      ),
+      ...diff.extraOnClient.map((e) => `  ${e.type} #${e.id} at ${formatPosition(e.position)}: missing on server`),
+    ];
+    const shown = lines.slice(0, 20);
+    const details = [
+      `${message || 'Entity mismatch'}: ${diff.mismatches.length} server entities unmatched, ${diff.extraOnClient.length} extra on client`,
+      ...shown,
+      lines.length > shown.length ? `  ... and ${lines.length - shown.length} more` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    throw new Error(details);
+  }
 }
@@ -0,0 +1,231 @@
+import type { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import type { BlockPosition } from './test-utils.ts';
+
+// prismarine-block comes in through mineflayer, its Block type is taken from the bot instead of a direct import
+type Block = NonNullable<ReturnType<Bot['blockAt']>>;
+
+// Recent observations kept for timeout messages
+const MAX_SEEN = 5;
+
+export interface WaitOptions {
+  /** Time limit in ms (default: 10000) */
+  timeout?: number;
+  /** Stop waiting early, rejecting with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a waiter times out. The message says what was waited for and what was seen instead.
+ */
+export class WaitTimeoutError extends Error {
+  readonly description: string;
+  /** Number of events observed while waiting */
+  readonly seenCount: number;
+  /** The last few observations, oldest first */
+  readonly lastSeen: string[];
+
+  constructor(description: string, timeout: number, seenCount: number, lastSeen: string[]) {
+    const seen = seenCount === 0 ? 'nothing seen' : `saw ${seenCount}, last: ${lastSeen.join(' | ')}`;
+    super(`Timed out after ${timeout}ms waiting for ${description} (${seen})`);
+    this.name = 'WaitTimeoutError';
+    this.description = description;
+    this.seenCount = seenCount;
+    this.lastSeen = lastSeen;
+  }
+}
+
+interface Listenable {
+  on(event: string, listener: (...args: unknown[]) => void): unknown;
+  off(event: string, listener: (...args: unknown[]) => void): unknown;
+}
+
+/**
+ * Shared plumbing: timeout, abort and the record of what was seen.
+ * `subscribe` gets `done` to resolve and `seen` to record a non-matching observation, and returns its cleanup.
+ */
+function wait<T>(
+  description: string,
+  options: WaitOptions,
+  subscribe: (done: (value: T) => void, seen: (observation: string) => void) => () => void
+): Promise<T> {
+  const { timeout = 10000, signal } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const lastSeen: string[] = [];
+    let seenCount = 0;
+    let settled = false;
+    let unsubscribe = () => {};
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      unsubscribe();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new WaitTimeoutError(description, timeout, seenCount, lastSeen));
+    }, timeout);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const done = (value: T) => {
+      if (settled) return;
+      finish();
+      resolve(value);
+    };
+    const seen = (observation: string) => {
+      seenCount++;
+      lastSeen.push(observation);
+      if (lastSeen.length > MAX_SEEN) lastSeen.shift();
+    };
+
+    unsubscribe = subscribe(done, seen);
+    // subscribe may already have resolved synchronously, before unsubscribe was assigned
+    if (settled) unsubscribe();
+  });
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  try {
+    const json = JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+    return json === undefined ? String(value) : json.length > 200 ? `${json.slice(0, 200)}...` : json;
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Wait for an event whose arguments match `predicate` (default: the first one). Resolves with the arguments.
+ */
+export function waitForEvent<T extends unknown[] = unknown[]>(
+  emitter: Listenable,
+  event: string,
+  predicate: (...args: T) => boolean = () => true,
+  options: WaitOptions = {}
+): Promise<T> {
+  return wait<T>(`"${event}" event`, options, (done, seen) => {
+    const listener = (...args: unknown[]) => {
+      if (predicate(...(args as T))) done(args as T);
+      else seen(args.map(describe).join(', '));
+    };
+    emitter.on(event, listener);
+    return () => emitter.off(event, listener);
+  });
+}
+
+function describeBlock(block: Block | null): string {
+  return block ? block.name : '<not loaded>';
+}
+
+/**
+ * Wait for the block at a position to change on the bot's side, e.g. after digging or a setblock.
+ * With a predicate, the current block is checked first (oldBlock is null then) and resolves right away when it matches.
+ */
+export function waitForBlockChange(
+  bot: Bot,
+  position: BlockPosition,
+  predicate?: (newBlock: Block | null, oldBlock: Block | null) => boolean,
+  options: WaitOptions = {}
+): Promise<Block | null> {
+  const pos = new Vec3(position.x, position.y, position.z).floored();
+  const event = `blockUpdate:${pos}`;
+
+  return wait<Block | null>(`block change at ${pos.x} ${pos.y} ${pos.z}`, options, (done, seen) => {
+    const current = bot.blockAt(pos);
+    if (predicate) {
+      if (predicate(current, null)) {
+        done(current);
+        return () => {};
+      }
+      seen(`${describeBlock(current)} (initial)`);
+    }
+
+    const listener = (oldBlock: Block | null, newBlock: Block | null) => {
+      if (!predicate || predicate(newBlock, oldBlock)) done(newBlock);
+      else seen(`${describeBlock(oldBlock)} -> ${describeBlock(newBlock)}`);
+    };
+    bot.on(event as 'blockUpdate', listener);
+    return () => bot.off(event as 'blockUpdate', listener);
+  });
+}
+
+function countItem(bot: Bot, item: string): number {
+  let count = 0;
+  for (const stack of bot.inventory.items()) {
+    if (stack.name === item) count += stack.count;
+  }
+  return count;
+}
+
+/**
+ * Wait until the bot holds `count` of an item in total, or a count matching the predicate.
+ * Checks the current inventory first. Resolves with the count.
+ */
+export function waitForInventoryChange(
+  bot: Bot,
+  item: string,
+  count: number | ((count: number) => boolean),
+  options: WaitOptions = {}
+): Promise<number> {
+  const matches = typeof count === 'function' ? count : (n: number) => n === count;
+  const expected = typeof count === 'function' ? 'a matching count' : String(count);
+
+  return wait<number>(`${expected} ${item} in ${bot.username}'s inventory`, options, (done, seen) => {
+    const check = () => {
+      const current = countItem(bot, item);
+      if (matches(current)) done(current);
+      else seen(`${current} ${item}`);
+    };
+    check();
+    bot.inventory.on('updateSlot', check);
+    return () => bot.inventory.off('updateSlot', check);
+  });
+}
+
+/**
+ * Wait for a chat or system message containing `pattern` (a string) or matching it (a RegExp).
+ * Resolves with the message text.
+ */
+export function waitForChat(bot: Bot, pattern: string | RegExp, options: WaitOptions = {}): Promise<string> {
+  const matches = (message: string) => (typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message));
+
+  return wait<string>(`chat message ${typeof pattern === 'string' ? describe(pattern) : pattern}`, options, (done, seen) => {
+    const listener = (message: string) => {
+      if (matches(message)) done(message);
+      else seen(describe(message));
+    };
+    bot.on('messagestr', listener);
+    return () => bot.off('messagestr', listener);
+  });
+}
+
+/**
+ * Wait for a packet from the server, e.g. waitForPacket<{ position: Vec3 }>(bot._client, 'update_block', (p) => p.position.y === 64).
+ * Resolves with the packet's params, typed as `T` by the caller.
+ */
+export function waitForPacket<T = unknown>(
+  client: Listenable,
+  name: string,
+  predicate: (params: T) => boolean = () => true,
+  options: WaitOptions = {}
+): Promise<T> {
+  return wait<T>(`${name} packet`, options, (done, seen) => {
+    const listener = (params: unknown) => {
+      if (predicate(params as T)) done(params as T);
+      else seen(describe(params));
+    };
+    client.on(name, listener);
+    return () => client.off(name, listener);
+  });
+}
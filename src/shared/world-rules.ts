@@ -0,0 +1,156 @@
+import type { ExternalServer } from './external-server.ts';
+
+/**
+ * Bedrock game rules by their command names (BDS matches them case-insensitively).
+ */
+export interface GameRules {
+  commandBlockOutput: boolean;
+  doDaylightCycle: boolean;
+  doEntityDrops: boolean;
+  doFireTick: boolean;
+  doImmediateRespawn: boolean;
+  doInsomnia: boolean;
+  doMobLoot: boolean;
+  doMobSpawning: boolean;
+  doTileDrops: boolean;
+  doWeatherCycle: boolean;
+  drowningDamage: boolean;
+  fallDamage: boolean;
+  fireDamage: boolean;
+  freezeDamage: boolean;
+  keepInventory: boolean;
+  mobGriefing: boolean;
+  naturalRegeneration: boolean;
+  pvp: boolean;
+  sendCommandFeedback: boolean;
+  showCoordinates: boolean;
+  showDeathMessages: boolean;
+  tntExplodes: boolean;
+  /** Random ticks per chunk section per tick, 1 by default; crops grow roughly proportionally */
+  randomTickSpeed: number;
+  playersSleepingPercentage: number;
+  spawnRadius: number;
+  functionCommandLimit: number;
+  maxCommandChainLength: number;
+}
+
+export type GameRule = keyof GameRules;
+
+/** Values of a new Bedrock world */
+export const DEFAULT_GAME_RULES: GameRules = {
+  commandBlockOutput: true,
+  doDaylightCycle: true,
+  doEntityDrops: true,
+  doFireTick: true,
+  doImmediateRespawn: false,
+  doInsomnia: true,
+  doMobLoot: true,
+  doMobSpawning: true,
+  doTileDrops: true,
+  doWeatherCycle: true,
+  drowningDamage: true,
+  fallDamage: true,
+  fireDamage: true,
+  freezeDamage: true,
+  keepInventory: false,
+  mobGriefing: true,
+  naturalRegeneration: true,
+  pvp: true,
+  sendCommandFeedback: true,
+  showCoordinates: false,
+  showDeathMessages: true,
+  tntExplodes: true,
+  randomTickSpeed: 1,
+  playersSleepingPercentage: 100,
+  spawnRadius: 5,
+  functionCommandLimit: 10000,
+  maxCommandChainLength: 65535,
+};
+
+export type TimeOfDay = 'day' | 'noon' | 'sunset' | 'night' | 'midnight' | 'sunrise';
+
+/** Ticks of each named time, as used by `time set <name>` */
+export const TIME_OF_DAY_TICKS: Record<TimeOfDay, number> = {
+  day: 1000,
+  noon: 6000,
+  sunset: 12000,
+  night: 13000,
+  midnight: 18000,
+  sunrise: 23000,
+};
+
+export type TimeQuery = 'daytime' | 'gametime' | 'day';
+export type Weather = 'clear' | 'rain' | 'thunder';
+
+/**
+ * World state applied after every (re)start, see ExternalServerOptions.worldSettings.
+ */
+export interface WorldSettings {
+  gameRules?: Partial<GameRules>;
+  /** Ticks (0-24000) or a named time of day */
+  time?: number | TimeOfDay;
+  weather?: Weather;
+}
+
+type CommandRunner = Pick<ExternalServer, 'executeCommand'>;
+
+export async function setGameRule<K extends GameRule>(server: CommandRunner, rule: K, value: GameRules[K]): Promise<void> {
+  await server.executeCommand(`gamerule ${rule} ${value}`);
+}
+
+export async function setGameRules(server: CommandRunner, rules: Partial<GameRules>): Promise<void> {
+  for (const [rule, value] of Object.entries(rules)) {
+    await setGameRule(server, rule as GameRule, value);
+  }
+}
+
+/**
+ * Read a game rule, BDS answers "randomtickspeed = 1".
+ */
+export async function getGameRule<K extends GameRule>(server: CommandRunner, rule: K): Promise<GameRules[K]> {
+  const result = await server.executeCommand(`gamerule ${rule}`);
+  const value = result.message.split('=').pop()?.trim();
+  if (value === undefined || value === '') {
+    throw new Error(`Unexpected gamerule output: ${result.message}`);
+  }
+  return (value === 'true' ? true : value === 'false' ? false : Number(value)) as GameRules[K];
+}
+
+export async function setTime(server: CommandRunner, time: number | TimeOfDay): Promise<void> {
+  await server.executeCommand(`time set ${time}`);
+}
+
+export async function addTime(server: CommandRunner, ticks: number): Promise<void> {
+  await server.executeCommand(`time add ${ticks}`);
+}
+
+/**
+ * Query the time, BDS answers "Daytime is 1000".
+ */
+export async function queryTime(server: CommandRunner, query: TimeQuery = 'daytime'): Promise<number> {
+  const result = await server.executeCommand(`time query ${query}`);
+  const match = result.message.match(/(-?\d+)\s*$/);
+  if (!match) {
+    throw new Error(`Unexpected time query output: ${result.message}`);
+  }
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Change the weather, for `duration` ticks or until the weather cycle changes it.
+ */
+export async function setWeather(server: CommandRunner, weather: Weather, duration?: number): Promise<void> {
+  await server.executeCommand(duration === undefined ? `weather ${weather}` : `weather ${weather} ${duration}`);
+}
+
+export async function applyWorldSettings(server: CommandRunner, settings: WorldSettings): Promise<void> {
+  if (settings.gameRules) {
+    await setGameRules(server, settings.gameRules);
+  }
+  if (settings.time !== undefined) {
+    await setTime(server, settings.time);
+  }
+  if (settings.weather) {
+    await setWeather(server, settings.weather);
+  }
+}
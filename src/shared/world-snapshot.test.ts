@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseSaveQueryFiles, replaceWorld } from './world-snapshot.ts';
+
+describe('parseSaveQueryFiles', () => {
+  it('splits the file list into paths and lengths', () => {
+    assert.deepEqual(parseSaveQueryFiles('Flat/db/000005.ldb:1234, Flat/level.dat:2048'), [
+      { path: 'Flat/db/000005.ldb', length: 1234 },
+      { path: 'Flat/level.dat', length: 2048 },
+    ]);
+  });
+});
+
+describe('replaceWorld', () => {
+  const packList = JSON.stringify([{ pack_id: 'test-helper', version: [1, 0, 0] }]);
+  let root: string;
+  let worldPath: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'world-snapshot-'));
+    worldPath = path.join(root, 'worlds', 'Flat');
+    fs.mkdirSync(path.join(worldPath, 'db'), { recursive: true });
+    fs.writeFileSync(path.join(worldPath, 'db', 'CURRENT'), 'changed');
+    fs.writeFileSync(path.join(worldPath, 'world_behavior_packs.json'), packList);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('restores a snapshot without losing the pack lists', () => {
+    // Snapshots hold only the files `save query` reports
+    const snapshotPath = path.join(root, 'snapshots', 'baseline');
+    fs.mkdirSync(path.join(snapshotPath, 'db'), { recursive: true });
+    fs.writeFileSync(path.join(snapshotPath, 'db', 'CURRENT'), 'baseline');
+    fs.writeFileSync(path.join(snapshotPath, 'level.dat'), 'level');
+
+    replaceWorld(worldPath, snapshotPath);
+    assert.equal(fs.readFileSync(path.join(worldPath, 'db', 'CURRENT'), 'utf8'), 'baseline');
+    assert.equal(fs.readFileSync(path.join(worldPath, 'level.dat'), 'utf8'), 'level');
+    assert.equal(fs.readFileSync(path.join(worldPath, 'world_behavior_packs.json'), 'utf8'), packList);
+    assert.equal(fs.existsSync(path.join(worldPath, 'world_resource_packs.json')), false);
+  });
+
+  it('leaves only the pack lists for a fresh world', () => {
+    replaceWorld(worldPath);
+    assert.deepEqual(fs.readdirSync(worldPath), ['world_behavior_packs.json']);
+  });
+});
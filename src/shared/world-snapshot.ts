@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExternalServer } from './external-server.ts';
+
+export interface SaveQueryFile {
+  /** Path relative to the worlds directory, starting with the world name */
+  path: string;
+  /** Number of bytes that belong to the consistent save */
+  length: number;
+}
+
+// Written by installPacks, not part of the files `save query` reports
+const WORLD_PACK_LISTS = ['world_behavior_packs.json', 'world_resource_packs.json'];
+
+const SAVE_READY_PATTERN = /Data saved\. Files are now ready to be copied/;
+const SAVE_NOT_READY_PATTERN = /A previous save has not been completed|not ready/i;
+
+/**
+ * Parse the file list printed by `save query`, e.g. "Flat/db/000005.ldb:1234, Flat/level.dat:2048".
+ */
+export function parseSaveQueryFiles(line: string): SaveQueryFile[] {
+  return line
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.lastIndexOf(':');
+      return { path: entry.slice(0, separator), length: parseInt(entry.slice(separator + 1), 10) };
+    })
+    .filter((file) => file.path && !Number.isNaN(file.length));
+}
+
+/**
+ * Send `save query` and wait for the file list, or null if the save is not ready yet.
+ */
+function querySave(server: ExternalServer, timeout: number): Promise<SaveQueryFile[] | null> {
+  return new Promise((resolve, reject) => {
+    let ready = false;
+
+    const finish = (result: SaveQueryFile[] | null, err?: Error) => {
+      clearTimeout(timer);
+      server.off('line', onLine);
+      if (err) reject(err);
+      else resolve(result);
+    };
+
+    const onLine = (line: string) => {
+      if (ready && line.trim()) {
+        finish(parseSaveQueryFiles(line));
+      } else if (SAVE_READY_PATTERN.test(line)) {
+        // The file list follows on the next line
+        ready = true;
+      } else if (SAVE_NOT_READY_PATTERN.test(line)) {
+        finish(null);
+      }
+    };
+
+    const timer = setTimeout(() => finish(null, new Error(`Timeout waiting for save query response after ${timeout}ms`)), timeout);
+    server.on('line', onLine);
+    server.sendCommand('save query').catch((err) => finish(null, err));
+  });
+}
+
+/**
+ * Copy the files of a held save, truncating each one to the length BDS reported.
+ * Files past that length may contain data written after the save was taken.
+ */
+export function copySaveFiles(worldsPath: string, files: SaveQueryFile[], destPath: string): void {
+  for (const file of files) {
+    // Drop the leading world name, the snapshot directory is the world directory
+    const relativePath = file.path.split(/[\\/]/).slice(1).join(path.sep);
+    const source = path.join(worldsPath, file.path);
+    const dest = path.join(destPath, relativePath);
+
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.copyFileSync(source, dest);
+    fs.truncateSync(dest, file.length);
+  }
+}
+
+/**
+ * Copy a consistent world to disk while the server keeps running,
+ * using the BDS `save hold` / `save query` / `save resume` protocol.
+ */
+export async function snapshotWorld(server: ExternalServer, worldsPath: string, destPath: string, timeout = 30000): Promise<void> {
+  await server.sendCommand('save hold');
+  try {
+    const start = Date.now();
+    let files: SaveQueryFile[] | null = null;
+    while (!files) {
+      if (Date.now() - start > timeout) {
+        throw new Error(`World save was not ready within ${timeout}ms`);
+      }
+      files = await querySave(server, 5000);
+      if (!files) {
+        await new Promise((r) => setTimeout(r, 500));
+      }
+    }
+
+    fs.rmSync(destPath, { recursive: true, force: true });
+    fs.mkdirSync(destPath, { recursive: true });
+    copySaveFiles(worldsPath, files, destPath);
+  } finally {
+    await server.sendCommand('save resume');
+  }
+}
+
+/**
+ * Replace a world directory with a copy of `sourcePath` (a snapshot or template), or with an empty directory
+ * so BDS generates a fresh world. The world's pack lists are kept, the packs enabled at start stay enabled.
+ */
+export function replaceWorld(worldPath: string, sourcePath?: string): void {
+  const packLists = WORLD_PACK_LISTS.filter((file) => fs.existsSync(path.join(worldPath, file))).map((file) => ({
+    file,
+    content: fs.readFileSync(path.join(worldPath, file)),
+  }));
+  fs.rmSync(worldPath, { recursive: true, force: true });
+  if (sourcePath) {
+    fs.cpSync(sourcePath, worldPath, { recursive: true });
+  }
+  fs.mkdirSync(worldPath, { recursive: true });
+  for (const { file, content } of packLists) {
+    fs.writeFileSync(path.join(worldPath, file), content);
+  }
+}